@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Aligns a new layout with the previous one, so points that are
+ * in both stay where they were.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from 'three';
+import {type PointCloudData} from './points';
+
+// Fewer shared points do not fix a rotation.
+const MIN_SHARED_POINTS = 3;
+const SQUARING_STEPS = 30;
+
+/**
+ * Rotates, mirrors and moves the points, keeping the distances between them,
+ * to best fit the previous positions of the points with the same labels.
+ *
+ * @param points The points of the new layout, moved in place.
+ * @param previousPositions The previous positions by label.
+ * @return Whether enough points were shared to align the layout.
+ */
+export function alignLayout(
+  points: PointCloudData[],
+  previousPositions: Map<string, THREE.Vector3>,
+): boolean {
+  const shared = points.filter(({label}) => previousPositions.has(label));
+  if (shared.length < MIN_SHARED_POINTS) {
+    return false;
+  }
+  const from = shared.map(({position}) => position);
+  const to = shared.map(({label}) => previousPositions.get(label)!);
+
+  // Projections have no handedness, so try the mirror image too.
+  const mirror = new THREE.Matrix4().makeScale(-1, 1, 1);
+  const rigid = findRigidTransform(from, to);
+  const mirrored = findRigidTransform(
+    from.map((position) => position.clone().applyMatrix4(mirror)),
+    to,
+  ).multiply(mirror);
+  const transform =
+    squaredError(from, to, mirrored) < squaredError(from, to, rigid)
+      ? mirrored
+      : rigid;
+
+  for (const {position} of points) {
+    position.applyMatrix4(transform);
+  }
+  return true;
+}
+
+// Finds the rotation and translation moving the points closest to the targets
+// with Horn's method: the rotation is the quaternion that is the largest
+// eigenvector of a 4x4 matrix built from the cross-covariance of the points.
+//
+// https://doi.org/10.1364/JOSAA.4.000629
+function findRigidTransform(
+  from: THREE.Vector3[],
+  to: THREE.Vector3[],
+): THREE.Matrix4 {
+  const fromCenter = centroid(from);
+  const toCenter = centroid(to);
+  const s = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  for (const [i, point] of from.entries()) {
+    const a = point.clone().sub(fromCenter).toArray();
+    const b = to[i].clone().sub(toCenter).toArray();
+    for (let row = 0; row < 3; row++) {
+      for (let column = 0; column < 3; column++) {
+        s[row][column] += a[row] * b[column];
+      }
+    }
+  }
+  const [[xx, xy, xz], [yx, yy, yz], [zx, zy, zz]] = s;
+  const n = [
+    [xx + yy + zz, yz - zy, zx - xz, xy - yx],
+    [yz - zy, xx - yy - zz, xy + yx, zx + xz],
+    [zx - xz, xy + yx, -xx + yy - zz, yz + zy],
+    [xy - yx, zx + xz, yz + zy, -xx - yy + zz],
+  ];
+  const [w, x, y, z] = findLargestEigenvector(n);
+  const rotation = new THREE.Quaternion(x, y, z, w).normalize();
+
+  const translation = toCenter
+    .clone()
+    .sub(fromCenter.clone().applyQuaternion(rotation));
+  return new THREE.Matrix4().compose(
+    translation,
+    rotation,
+    new THREE.Vector3(1, 1, 1),
+  );
+}
+
+// Finds the eigenvector of the largest eigenvalue of a symmetric matrix by
+// power iteration. The eigenvalues are shifted to be positive, and squaring
+// the matrix repeatedly raises it to a high power in few steps.
+function findLargestEigenvector(matrix: number[][]): number[] {
+  const shift = Math.max(
+    ...matrix.map((row) =>
+      row.reduce((sum, value) => sum + Math.abs(value), 0),
+    ),
+  );
+  let power = matrix.map((row, i) =>
+    row.map((value, j) => value + (i === j ? shift : 0)),
+  );
+  for (let step = 0; step < SQUARING_STEPS; step++) {
+    const squared = power.map((row) =>
+      row.map((_, j) =>
+        row.reduce((sum, value, k) => sum + value * power[k][j], 0),
+      ),
+    );
+    const scale = Math.max(...squared.flat().map(Math.abs));
+    if (scale === 0) {
+      break;
+    }
+    power = squared.map((row) => row.map((value) => value / scale));
+  }
+  // Any column not orthogonal to the eigenvector converges to it, so take
+  // the longest.
+  const norms = power.map((_, j) => Math.hypot(...power.map((row) => row[j])));
+  const column = norms.indexOf(Math.max(...norms));
+  const vector = power.map((row) => row[column]);
+  const norm = Math.hypot(...vector);
+  return norm === 0 ? [1, 0, 0, 0] : vector.map((value) => value / norm);
+}
+
+function centroid(points: THREE.Vector3[]): THREE.Vector3 {
+  const center = new THREE.Vector3();
+  for (const point of points) {
+    center.add(point);
+  }
+  return center.divideScalar(points.length);
+}
+
+function squaredError(
+  from: THREE.Vector3[],
+  to: THREE.Vector3[],
+  transform: THREE.Matrix4,
+): number {
+  let error = 0;
+  for (const [i, point] of from.entries()) {
+    error += point.clone().applyMatrix4(transform).distanceToSquared(to[i]);
+  }
+  return error;
+}
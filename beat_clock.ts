@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Tracks the beat grid of the generated music on the audio clock.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * The musical boundary that prompt transitions are held until, or 'off' to
+ * send them immediately.
+ */
+export type TransitionQuantization = 'off' | 'beat' | 'bar' | 'phrase';
+
+const BEATS_PER_UNIT: {
+  [key in Exclude<TransitionQuantization, 'off'>]: number;
+} = {
+  beat: 1,
+  bar: 4,
+  phrase: 16,
+};
+
+// Boundaries closer than this are treated as already reached, so rounding
+// errors never push a transition a whole unit late.
+const EPSILON = 1e-3;
+
+/**
+ * Maps the audio context clock to a position in the generated music.
+ *
+ * The session generates one continuous piece of music from the last context
+ * reset, so the beat grid is anchored on the total duration of the audio
+ * received since then. The anchor follows the most recent chunk, so it stays
+ * correct when the jitter buffer trims or delays chunks.
+ */
+export class BeatClock {
+  // The audio context time at which the music would have started, had it
+  // played back without interruption up to the latest chunk.
+  private anchorTime = 0;
+  private musicDuration = 0;
+
+  /**
+   * Records a chunk of music scheduled to play at the given time.
+   *
+   * @param startTime The audio context time at which the chunk starts.
+   * @param duration The duration of the chunk in seconds.
+   */
+  addChunk(startTime: number, duration: number) {
+    this.anchorTime = startTime - this.musicDuration;
+    this.musicDuration += duration;
+  }
+
+  /**
+   * Returns whether any music has been received since the last reset.
+   */
+  hasStarted(): boolean {
+    return this.musicDuration > 0;
+  }
+
+  /**
+   * Returns the audio context time of the first boundary at or after the
+   * given time.
+   *
+   * @param time The audio context time to search from.
+   * @param bpm The tempo of the music.
+   * @param unit The kind of boundary to find.
+   */
+  getNextBoundary(
+    time: number,
+    bpm: number,
+    unit: Exclude<TransitionQuantization, 'off'>,
+  ): number {
+    const period = (60 / bpm) * BEATS_PER_UNIT[unit];
+    const position = (time - this.anchorTime) / period;
+    return this.anchorTime + Math.ceil(position - EPSILON) * period;
+  }
+
+  /**
+   * Forgets the beat grid, e.g. after the generation context is reset.
+   */
+  reset() {
+    this.anchorTime = 0;
+    this.musicDuration = 0;
+  }
+}
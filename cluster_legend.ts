@@ -0,0 +1,147 @@
+/**
+ * @fileoverview A legend of the clusters the points are colored by.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import './icon_button';
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+import {when} from 'lit/directives/when.js';
+import {type Cluster} from './clustering';
+
+/**
+ * Lists the clusters by color, each of which can be shown or hidden.
+ */
+@customElement('cluster-legend')
+export class ClusterLegend extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      background-color: rgba(26, 26, 26, 0.7);
+      color: #e0e0e0;
+      padding: 12px 24px;
+      border-radius: 12px;
+      width: 240px;
+      backdrop-filter: blur(4px);
+      border: 1px solid rgba(255, 255, 255, 0.1);
+      transition: all 0.3s ease-in-out;
+    }
+    :host([collapsed]) {
+      width: auto;
+      padding: 0 6px 0 24px;
+    }
+    .header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    h2 {
+      flex: 1;
+      margin: 0;
+      font-size: 16px;
+      color: #a1a1a1;
+      letter-spacing: 0.5px;
+    }
+    collapse-button {
+      width: 36px;
+      height: 36px;
+    }
+    .clusters {
+      max-height: 30vh;
+      overflow-y: auto;
+      margin-top: 8px;
+      font-size: 12px;
+    }
+    .cluster {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      width: 100%;
+      padding: 3px 0;
+      border: none;
+      background: transparent;
+      color: inherit;
+      font: inherit;
+      text-align: left;
+      cursor: pointer;
+    }
+    .cluster.hidden {
+      opacity: 0.4;
+    }
+    .swatch {
+      width: 12px;
+      height: 12px;
+      border-radius: 50%;
+      flex-shrink: 0;
+    }
+    .name {
+      flex: 1;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .size {
+      color: #a1a1a1;
+      font-variant-numeric: tabular-nums;
+    }
+  `;
+
+  @property({type: Array}) clusters: Cluster[] = [];
+  @property({type: Boolean, reflect: true}) collapsed = false;
+
+  private toggleCluster(index: number) {
+    this.dispatchEvent(
+      new CustomEvent('cluster-toggled', {
+        bubbles: true,
+        composed: true,
+        detail: {index, visible: !this.clusters[index].visible},
+      }),
+    );
+  }
+
+  override render() {
+    return html`
+      <div class="header">
+        <h2>CLUSTERS</h2>
+        <collapse-button
+          .collapsed=${this.collapsed}
+          @click=${() => {
+            this.collapsed = !this.collapsed;
+          }}></collapse-button>
+      </div>
+      ${when(
+        !this.collapsed,
+        () => html`
+          <div class="clusters">
+            ${this.clusters.map(
+              (cluster, i) => html`
+                <button
+                  class=${classMap({
+                    'cluster': true,
+                    'hidden': !cluster.visible,
+                  })}
+                  title=${cluster.visible ? 'Hide' : 'Show'}
+                  @click=${() => this.toggleCluster(i)}>
+                  <span
+                    class="swatch"
+                    style="background: #${cluster.color.getHexString()}"></span>
+                  <span class="name">${cluster.name}</span>
+                  <span class="size">${cluster.members.length}</span>
+                </button>
+              `,
+            )}
+          </div>
+        `,
+      )}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'cluster-legend': ClusterLegend;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Groups the embeddings into clusters of related genres.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from 'three';
+import {normalizeVectors} from './projection';
+
+const MAX_ITERATIONS = 50;
+
+/**
+ * A group of related points.
+ */
+export interface Cluster {
+  /** The label of the member closest to the center of the cluster. */
+  name: string;
+  color: THREE.Color;
+  /** The indices of the member points. */
+  members: number[];
+  visible: boolean;
+}
+
+/**
+ * Clusters vectors by cosine distance with k-means, largest cluster first.
+ *
+ * @param vectors The high dimensional vectors of the points.
+ * @param labels The labels of the points, which name the clusters.
+ * @param k The number of clusters, fewer if there are fewer points.
+ * @param random Seeds the initial centers.
+ */
+export function findClusters(
+  vectors: number[][],
+  labels: string[],
+  k: number,
+  random: () => number,
+): Cluster[] {
+  const data = normalizeVectors(vectors);
+  const centers = chooseInitialCenters(data, Math.min(k, data.length), random);
+  const assignments = new Array<number>(data.length).fill(-1);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    for (const [i, vector] of data.entries()) {
+      const nearest = findNearest(vector, centers);
+      if (nearest !== assignments[i]) {
+        assignments[i] = nearest;
+        changed = true;
+      }
+    }
+    if (!changed) {
+      break;
+    }
+    for (const [c, center] of centers.entries()) {
+      const sum = new Array<number>(center.length).fill(0);
+      for (const [i, vector] of data.entries()) {
+        if (assignments[i] === c) {
+          for (let d = 0; d < sum.length; d++) {
+            sum[d] += vector[d];
+          }
+        }
+      }
+      // Keep the center of an empty cluster, comparing directions only.
+      if (sum.some((value) => value !== 0)) {
+        centers[c] = normalizeVectors([sum])[0];
+      }
+    }
+  }
+
+  const clusters = centers
+    .map((center, c) => {
+      const members = assignments.flatMap((assignment, i) =>
+        assignment === c ? [i] : [],
+      );
+      let central = members[0];
+      for (const i of members) {
+        if (dot(data[i], center) > dot(data[central], center)) {
+          central = i;
+        }
+      }
+      return {members, name: labels[central]};
+    })
+    .filter(({members}) => members.length > 0)
+    .sort((a, b) => b.members.length - a.members.length);
+  return clusters.map(({members, name}, c) => ({
+    name,
+    color: new THREE.Color().setHSL(c / clusters.length, 0.6, 0.55),
+    members,
+    visible: true,
+  }));
+}
+
+// Picks centers spread over the data with k-means++.
+function chooseInitialCenters(
+  data: number[][],
+  k: number,
+  random: () => number,
+): number[][] {
+  if (k === 0) {
+    return [];
+  }
+  const centers = [data[Math.floor(random() * data.length)]];
+  const distances = data.map((vector) => 1 - dot(vector, centers[0]));
+  while (centers.length < k) {
+    const total = distances.reduce((sum, distance) => sum + distance ** 2, 0);
+    let target = random() * total;
+    let next = data.length - 1;
+    for (const [i, distance] of distances.entries()) {
+      target -= distance ** 2;
+      if (target <= 0) {
+        next = i;
+        break;
+      }
+    }
+    centers.push(data[next]);
+    for (const [i, vector] of data.entries()) {
+      distances[i] = Math.min(distances[i], 1 - dot(vector, data[next]));
+    }
+  }
+  return centers;
+}
+
+function findNearest(vector: number[], centers: number[][]): number {
+  let nearest = 0;
+  let nearestSimilarity = -Infinity;
+  for (const [c, center] of centers.entries()) {
+    const similarity = dot(vector, center);
+    if (similarity > nearestSimilarity) {
+      nearest = c;
+      nearestSimilarity = similarity;
+    }
+  }
+  return nearest;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Equal-power crossfader between two decks.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const RAMP_TIME = 0.02;
+
+/**
+ * Mixes two inputs with an equal-power curve, so the loudness stays constant
+ * across the fade when the decks play uncorrelated music.
+ */
+export class Crossfader {
+  readonly inputA: GainNode;
+  readonly inputB: GainNode;
+  private position = 0;
+
+  constructor(
+    private readonly audioContext: AudioContext,
+    destination: AudioNode,
+  ) {
+    this.inputA = audioContext.createGain();
+    this.inputB = audioContext.createGain();
+    this.inputA.connect(destination);
+    this.inputB.connect(destination);
+    this.setPosition(0);
+  }
+
+  getPosition(): number {
+    return this.position;
+  }
+
+  /**
+   * Moves the crossfader, ramping the gains to avoid clicks.
+   *
+   * @param position 0 plays only deck A, 1 plays only deck B.
+   */
+  setPosition(position: number) {
+    this.position = Math.max(0, Math.min(1, position));
+    const angle = (this.position * Math.PI) / 2;
+    const now = this.audioContext.currentTime;
+    this.inputA.gain.setTargetAtTime(Math.cos(angle), now, RAMP_TIME);
+    this.inputB.gain.setTargetAtTime(Math.sin(angle), now, RAMP_TIME);
+  }
+}
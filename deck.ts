@@ -0,0 +1,636 @@
+/**
+ * @fileoverview A deck: one music session and the audio pipeline playing it.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  type LiveMusicGenerationConfig,
+  type LiveMusicServerMessage,
+} from '@google/genai';
+import {BeatClock} from './beat_clock';
+import {JitterBuffer, type JitterBufferStats} from './jitter_buffer';
+import {type MusicBackend} from './music_backend';
+import {type MusicConfig} from './music_config';
+import {PcmPlayer} from './pcm_player';
+import {PromptMixer, type PromptChannel} from './prompt_mixer';
+import {PromptScheduler, type PromptSchedulerOptions} from './prompt_scheduler';
+import {Backoff} from './reconnect';
+import {type SessionUpdate} from './timeline';
+import {decode} from './utils';
+
+/** Identifies one of the two decks. */
+export type DeckId = 'A' | 'B';
+
+export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+
+export type ConnectionState =
+  'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+/**
+ * The state of a deck shown in the UI.
+ */
+export interface DeckState {
+  playbackState: PlaybackState;
+  connectionState: ConnectionState;
+  /** The number of reconnect attempts since the connection was lost. */
+  reconnectAttempt: number;
+  promptChannels: PromptChannel[];
+  filteredPrompts: Set<string>;
+  /** Seconds until held prompt changes are sent, or null if none are held. */
+  pendingPromptsCountdown: number | null;
+}
+
+/**
+ * The app hosting a deck.
+ */
+export interface DeckHost {
+  /** Called whenever the state of the deck changes. */
+  onDeckStateChanged(deck: Deck): void;
+  /** Called when the session is ready. */
+  onDeckConnected(deck: Deck): void;
+  /** Shows a message to the user. */
+  showDeckMessage(deck: Deck, message: string): void;
+  /** Called after a change was sent to the session. */
+  onSessionUpdated(deck: Deck, update: SessionUpdate): void;
+  getMusicConfig(): MusicConfig;
+  getMusicGenerationConfig(): LiveMusicGenerationConfig;
+}
+
+/**
+ * Streams music from one session into its own output node.
+ *
+ * The deck owns the session, reconnects to it when the connection is lost,
+ * buffers and plays the audio it streams, and sends it the prompts mixed from
+ * the space and the user's overrides.
+ */
+export class Deck {
+  /** The output of the deck, also used for play, pause and stop fades. */
+  readonly output: GainNode;
+  private state: DeckState = {
+    playbackState: 'stopped',
+    connectionState: 'disconnected',
+    reconnectAttempt: 0,
+    promptChannels: [],
+    filteredPrompts: new Set(),
+    pendingPromptsCountdown: null,
+  };
+  private readonly player: PcmPlayer;
+  private isPlayerReady = false;
+  // Why the player failed to load, if it did. The deck cannot play then.
+  private playerError: string | null = null;
+  // Adds an adaptive audio buffer in case of network latency.
+  private readonly jitterBuffer = new JitterBuffer();
+  private readonly beatClock = new BeatClock();
+  private readonly promptMixer = new PromptMixer();
+  private readonly promptScheduler: PromptScheduler;
+  private readonly reconnectBackoff = new Backoff();
+  // Identifies the current connection, so callbacks from older ones are
+  // ignored.
+  private connectionId = 0;
+  private reconnectTimerId?: number;
+  private resumeAfterReconnect = false;
+  // Whether the session is driven by a replayed timeline rather than the
+  // prompt mixer and the music config.
+  private isReplaying = false;
+  // The audio context time at which held prompt changes are sent, if any.
+  private pendingPromptsSendTime: number | null = null;
+  private pendingPromptsTimerId?: number;
+
+  constructor(
+    readonly id: DeckId,
+    private readonly session: MusicBackend,
+    private readonly audioContext: AudioContext,
+    destination: AudioNode,
+    private readonly host: DeckHost,
+  ) {
+    this.output = audioContext.createGain();
+    this.output.connect(destination);
+    this.player = new PcmPlayer(audioContext, this.output);
+    this.player.ready.then(
+      () => {
+        this.isPlayerReady = true;
+      },
+      (e) => {
+        this.handlePlayerFailed(e);
+      },
+    );
+    this.promptScheduler = new PromptScheduler(async (weightedPrompts) => {
+      if (this.state.connectionState !== 'connected') {
+        return;
+      }
+      try {
+        await this.session.setWeightedPrompts({weightedPrompts});
+        this.host.onSessionUpdated(this, {type: 'prompts', weightedPrompts});
+      } catch (e) {
+        this.host.showDeckMessage(this, e.message);
+        this.pause();
+      }
+    }, this.getPromptSchedulerOptions());
+  }
+
+  getState(): DeckState {
+    return this.state;
+  }
+
+  /**
+   * Returns the statistics of the jitter buffer.
+   */
+  getStats(): JitterBufferStats {
+    return this.jitterBuffer.getStats(this.audioContext.currentTime);
+  }
+
+  getMaxReconnectAttempts(): number {
+    return this.reconnectBackoff.getMaxAttempts();
+  }
+
+  isConnectionPending(): boolean {
+    return (
+      this.state.connectionState === 'connecting' ||
+      this.state.connectionState === 'reconnecting'
+    );
+  }
+
+  private setState(changes: Partial<DeckState>) {
+    this.state = {...this.state, ...changes};
+    this.host.onDeckStateChanged(this);
+  }
+
+  /**
+   * Connects to a new session and restores the prompts and config on it.
+   *
+   * @return Whether the session connected.
+   */
+  async connect(): Promise<boolean> {
+    this.reconnectBackoff.reset();
+    if (!(await this.connectToSession())) {
+      return false;
+    }
+    await this.replaySessionState();
+    return true;
+  }
+
+  /**
+   * Opens a new session and resolves with whether it connected. A lost or
+   * failed connection schedules automatic reconnection.
+   */
+  private async connectToSession(
+    connectionState: 'connecting' | 'reconnecting' = 'connecting',
+  ): Promise<boolean> {
+    this.setState({connectionState});
+    const connectionId = ++this.connectionId;
+    let resolveConnectedPromise: (connected: boolean) => void;
+    const connectedPromise = new Promise<boolean>((resolve) => {
+      resolveConnectedPromise = resolve;
+    });
+    const handleError = () => {
+      if (connectionId !== this.connectionId) {
+        return;
+      }
+      // Ignore any further errors from this connection.
+      this.connectionId++;
+      resolveConnectedPromise(false);
+      this.handleConnectionLost();
+    };
+    const callbacks = {
+      onmessage: (e: LiveMusicServerMessage) => {
+        if (connectionId !== this.connectionId) {
+          return;
+        }
+        if (e.setupComplete) {
+          console.log(`deck ${this.id} connected`);
+          this.reconnectBackoff.reset();
+          this.setState({connectionState: 'connected', reconnectAttempt: 0});
+          resolveConnectedPromise(true);
+          this.host.onDeckConnected(this);
+        }
+        if (e.filteredPrompt) {
+          this.setState({
+            filteredPrompts: new Set([
+              ...this.state.filteredPrompts,
+              e.filteredPrompt.text,
+            ]),
+          });
+          this.host.showDeckMessage(this, e.filteredPrompt.filteredReason);
+        }
+        if (e.serverContent?.audioChunks !== undefined) {
+          this.handleAudioChunk(e.serverContent.audioChunks[0].data);
+        }
+      },
+      onerror: (e: ErrorEvent) => {
+        console.warn('Error occurred: ', e);
+        handleError();
+      },
+      onclose: (e: CloseEvent) => {
+        console.warn('Connection closed.', e);
+        handleError();
+      },
+    };
+    try {
+      await this.session.connect(callbacks);
+    } catch (e) {
+      console.warn('Failed to connect: ', e);
+      handleError();
+    }
+    return connectedPromise;
+  }
+
+  private handleAudioChunk(data: string | undefined) {
+    if (
+      this.state.playbackState === 'paused' ||
+      this.state.playbackState === 'stopped'
+    ) {
+      return;
+    }
+    if (!this.isPlayerReady) {
+      return;
+    }
+    const pcm = new Int16Array(decode(data).buffer);
+    const currentTime = this.audioContext.currentTime;
+    const isBuffering = this.jitterBuffer.nextStartTime === 0;
+    const duration = this.player.getDuration(pcm);
+    const {startTime, crossfadeDuration, rebuffered} =
+      this.jitterBuffer.schedule(duration, currentTime);
+    this.beatClock.addChunk(startTime, duration);
+
+    if (isBuffering || rebuffered) {
+      this.setState({playbackState: 'loading'});
+      const fade = this.output.gain;
+      fade.setValueAtTime(0, startTime);
+      fade.linearRampToValueAtTime(1, startTime + 0.75);
+      setTimeout(
+        () => {
+          if (this.state.playbackState === 'loading') {
+            this.setState({playbackState: 'playing'});
+          }
+        },
+        (startTime - currentTime) * 1000,
+      );
+    }
+    this.player.enqueue(pcm, startTime, crossfadeDuration);
+  }
+
+  private handlePlayerFailed(e: Error) {
+    console.error('Failed to load the audio player: ', e);
+    this.playerError = `Failed to start audio playback: ${e.message}`;
+    this.host.showDeckMessage(this, this.playerError);
+    if (
+      this.state.connectionState === 'connected' &&
+      this.state.playbackState !== 'stopped'
+    ) {
+      this.stop();
+    }
+  }
+
+  private handleConnectionLost() {
+    if (this.state.connectionState === 'connected') {
+      this.resumeAfterReconnect =
+        this.state.playbackState === 'playing' ||
+        this.state.playbackState === 'loading';
+    }
+    this.fadeOut();
+    this.beatClock.reset();
+    this.promptScheduler.reset();
+    this.setState({
+      playbackState: this.resumeAfterReconnect ? 'loading' : 'stopped',
+    });
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    const delay = this.reconnectBackoff.nextDelay();
+    if (delay === null) {
+      this.resumeAfterReconnect = false;
+      this.setState({connectionState: 'failed', playbackState: 'stopped'});
+      this.host.showDeckMessage(
+        this,
+        'Connection error, please restart audio.',
+      );
+      return;
+    }
+    const attempt = this.reconnectBackoff.getAttempt();
+    this.setState({connectionState: 'reconnecting', reconnectAttempt: attempt});
+    this.host.showDeckMessage(
+      this,
+      `Connection lost, reconnecting (attempt ${attempt} of ${this.reconnectBackoff.getMaxAttempts()}).`,
+    );
+    this.reconnectTimerId = window.setTimeout(() => {
+      void this.reconnect();
+    }, delay);
+  }
+
+  private async reconnect() {
+    if (!(await this.connectToSession('reconnecting'))) {
+      return;
+    }
+    await this.replaySessionState();
+    if (this.resumeAfterReconnect) {
+      this.resumeAfterReconnect = false;
+      this.play();
+    }
+  }
+
+  /**
+   * Sends the current prompts and music generation config to a new session.
+   */
+  private async replaySessionState() {
+    this.promptScheduler.reset();
+    await this.setSessionPrompts();
+    await this.applyMusicGenerationConfig();
+  }
+
+  /**
+   * Plays, pauses or stops the deck depending on its playback state,
+   * connecting first if needed.
+   */
+  async playPause() {
+    if (this.playerError) {
+      this.host.showDeckMessage(this, this.playerError);
+      return;
+    }
+    if (this.isConnectionPending()) {
+      this.host.showDeckMessage(this, 'Please wait for API to be ready.');
+      return;
+    }
+    const {playbackState} = this.state;
+    if (playbackState === 'playing') {
+      this.pause();
+    } else if (playbackState === 'paused' || playbackState === 'stopped') {
+      if (this.state.connectionState !== 'connected') {
+        if (!(await this.connect())) {
+          return;
+        }
+      }
+      this.play();
+    } else if (playbackState === 'loading') {
+      this.stop();
+    }
+  }
+
+  /**
+   * Restarts the music with the current prompts, connecting first if needed.
+   */
+  async reset() {
+    if (this.playerError) {
+      this.host.showDeckMessage(this, this.playerError);
+      return;
+    }
+    if (this.isConnectionPending()) {
+      this.host.showDeckMessage(this, 'Please wait for API to be ready.');
+      return;
+    }
+    console.log(`deck ${this.id} reset`);
+    if (this.state.connectionState !== 'connected') {
+      if (!(await this.connect())) {
+        return;
+      }
+    } else {
+      this.pause();
+      this.session.resetContext();
+      this.beatClock.reset();
+    }
+    this.play();
+  }
+
+  private play() {
+    console.log(`deck ${this.id} loading`);
+    this.audioContext.resume();
+    this.session.play();
+    this.setState({playbackState: 'loading'});
+    const fade = this.output.gain;
+    const now = this.audioContext.currentTime;
+    fade.cancelScheduledValues(now);
+    fade.setValueAtTime(0, now);
+  }
+
+  private pause() {
+    this.session.pause();
+    this.setState({playbackState: 'paused'});
+    this.fadeOut();
+    this.flushPendingPrompts();
+  }
+
+  private stop() {
+    console.log(`deck ${this.id} stopped`);
+    this.session.stop();
+    this.setState({playbackState: 'stopped'});
+    const fade = this.output.gain;
+    const now = this.audioContext.currentTime;
+    fade.cancelScheduledValues(now);
+    fade.setValueAtTime(0, now);
+    fade.linearRampToValueAtTime(1, now + 0.1);
+    this.jitterBuffer.reset();
+    this.beatClock.reset();
+    this.flushPendingPrompts();
+  }
+
+  /**
+   * Fades out and discards all scheduled audio.
+   */
+  private fadeOut() {
+    const fade = this.output.gain;
+    const now = this.audioContext.currentTime;
+    fade.cancelScheduledValues(now);
+    fade.setValueAtTime(1, now);
+    fade.linearRampToValueAtTime(0, now + 0.1);
+    this.player.flush(now + 0.1);
+    this.jitterBuffer.reset();
+  }
+
+  /**
+   * Sets the prompt weights selected in the space and sends the new mix.
+   */
+  async setSpaceWeights(weights: Map<string, number>) {
+    await this.updatePromptMixer((mixer) => {
+      mixer.setSpaceWeights(weights);
+    });
+  }
+
+  /**
+   * Applies a change made in the prompt mixer and sends the new mix.
+   */
+  async updatePromptMixer(change: (mixer: PromptMixer) => void) {
+    change(this.promptMixer);
+    this.setState({promptChannels: this.promptMixer.getChannels()});
+    await this.sendPromptsAtNextBoundary();
+  }
+
+  private getPromptSchedulerOptions(): Partial<PromptSchedulerOptions> {
+    const config = this.host.getMusicConfig();
+    return {
+      morphDuration: config.morphDuration * 1000,
+      easing: config.morphEasing,
+    };
+  }
+
+  /**
+   * Applies changes to the client-side music settings.
+   */
+  updateMusicSettings() {
+    this.promptScheduler.setOptions(this.getPromptSchedulerOptions());
+    if (this.host.getMusicConfig().transitionQuantization === 'off') {
+      this.flushPendingPrompts();
+    }
+  }
+
+  /**
+   * Sends the music generation config to the session. The config is sent on
+   * reconnection if the deck is not connected.
+   */
+  async applyMusicGenerationConfig() {
+    if (this.state.connectionState !== 'connected' || this.isReplaying) {
+      return;
+    }
+    const musicGenerationConfig = this.host.getMusicGenerationConfig();
+    await this.session.setMusicGenerationConfig({musicGenerationConfig});
+    this.host.onSessionUpdated(this, {type: 'config', musicGenerationConfig});
+  }
+
+  private async setSessionPrompts() {
+    if (this.state.connectionState !== 'connected' || this.isReplaying) {
+      // The prompts are sent once the session reconnects, or the replay ends.
+      return;
+    }
+    const promptsToSend = this.promptMixer.getMix().filter((p) => {
+      return !this.state.filteredPrompts.has(p.text);
+    });
+    await this.promptScheduler.update(promptsToSend);
+  }
+
+  /**
+   * Sends the prompts to the session. When a BPM is set and transitions are
+   * quantized, the prompts are held so that the change is heard at the next
+   * beat, bar or phrase boundary.
+   */
+  private async sendPromptsAtNextBoundary() {
+    const {bpm, transitionQuantization} = this.host.getMusicConfig();
+    if (
+      bpm === null ||
+      transitionQuantization === 'off' ||
+      this.state.playbackState !== 'playing' ||
+      !this.beatClock.hasStarted()
+    ) {
+      this.clearPendingPrompts();
+      await this.setSessionPrompts();
+      return;
+    }
+    if (this.pendingPromptsSendTime !== null) {
+      // The latest prompts are sent when the pending change fires.
+      return;
+    }
+    // Audio already received plays until the end of the jitter buffer, so a
+    // change sent now is first heard there. Sending it later by the distance
+    // to the next boundary lines it up with that boundary.
+    const currentTime = this.audioContext.currentTime;
+    const earliestTime = Math.max(this.jitterBuffer.nextStartTime, currentTime);
+    const boundary = this.beatClock.getNextBoundary(
+      earliestTime,
+      bpm,
+      transitionQuantization,
+    );
+    this.pendingPromptsSendTime = currentTime + (boundary - earliestTime);
+    this.updatePendingPrompts();
+    this.pendingPromptsTimerId = window.setInterval(() => {
+      this.updatePendingPrompts();
+    }, 100);
+  }
+
+  private updatePendingPrompts() {
+    if (this.pendingPromptsSendTime === null) {
+      return;
+    }
+    const remaining =
+      this.pendingPromptsSendTime - this.audioContext.currentTime;
+    if (remaining > 0) {
+      this.setState({pendingPromptsCountdown: remaining});
+      return;
+    }
+    this.clearPendingPrompts();
+    void this.setSessionPrompts();
+  }
+
+  /**
+   * Sends held prompt changes right away, e.g. when playback stops.
+   */
+  private flushPendingPrompts() {
+    if (this.pendingPromptsSendTime === null) {
+      return;
+    }
+    this.clearPendingPrompts();
+    void this.setSessionPrompts();
+  }
+
+  private clearPendingPrompts() {
+    window.clearInterval(this.pendingPromptsTimerId);
+    this.pendingPromptsTimerId = undefined;
+    this.pendingPromptsSendTime = null;
+    if (this.state.pendingPromptsCountdown !== null) {
+      this.setState({pendingPromptsCountdown: null});
+    }
+  }
+
+  /**
+   * Connects to a new session that plays the changes of a replayed timeline
+   * instead of the live prompts and config, and starts playing it.
+   *
+   * @return Whether the session connected.
+   */
+  async startReplay(): Promise<boolean> {
+    this.isReplaying = true;
+    this.promptScheduler.reset();
+    this.clearPendingPrompts();
+    this.fadeOut();
+    this.beatClock.reset();
+    this.setState({playbackState: 'stopped'});
+    if (!(await this.connect())) {
+      this.isReplaying = false;
+      return false;
+    }
+    this.play();
+    return true;
+  }
+
+  /**
+   * Sends a replayed change to the session.
+   */
+  async sendReplayedUpdate(update: SessionUpdate) {
+    if (!this.isReplaying || this.state.connectionState !== 'connected') {
+      return;
+    }
+    if (update.type === 'prompts') {
+      await this.session.setWeightedPrompts({
+        weightedPrompts: update.weightedPrompts,
+      });
+    } else {
+      await this.session.setMusicGenerationConfig({
+        musicGenerationConfig: update.musicGenerationConfig,
+      });
+    }
+  }
+
+  /**
+   * Hands the session back to the live prompts and config.
+   */
+  async stopReplay() {
+    if (!this.isReplaying) {
+      return;
+    }
+    this.isReplaying = false;
+    await this.replaySessionState();
+  }
+
+  /**
+   * Closes the session, stops the player and disconnects the deck from the
+   * output.
+   */
+  dispose() {
+    window.clearTimeout(this.reconnectTimerId);
+    window.clearInterval(this.pendingPromptsTimerId);
+    this.promptScheduler.reset();
+    // Ignore the callbacks of the closing session.
+    this.connectionId++;
+    this.session.close();
+    this.player.dispose();
+    this.output.disconnect();
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Controls for switching between the built-in and custom
+ * embedding sets.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import '@material/web/all.js';
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property, query} from 'lit/decorators.js';
+import {when} from 'lit/directives/when.js';
+import {type EmbeddingSet} from './embedding_sets';
+import {MD_STYLES} from './styles';
+
+const BUILT_IN_VALUE = 'built-in';
+const CUSTOM_VALUE = 'custom';
+
+/**
+ * A component for loading a custom embedding set and choosing which set to
+ * explore.
+ */
+@customElement('embedding-set-picker')
+export class EmbeddingSetPicker extends LitElement {
+  static override styles = [
+    MD_STYLES,
+    css`
+      :host {
+        display: block;
+        width: fit-content;
+      }
+      .flex-row {
+        background: rgba(26, 26, 26, 0.5);
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        padding: 6px 0px;
+        width: fit-content;
+        gap: 8px;
+      }
+      md-outlined-select {
+        min-width: 240px;
+      }
+      .status {
+        color: var(--md-sys-color-on-surface-variant);
+        font-size: 12px;
+      }
+      .status.error {
+        color: #ff8a80;
+      }
+      input[type='file'] {
+        display: none;
+      }
+    `,
+  ];
+
+  @property({type: Object}) customSet: EmbeddingSet | null = null;
+  @property({type: Boolean}) isCustomSetActive = false;
+  @property({type: Boolean}) isLoading = false;
+  @property({type: String}) error: string | null = null;
+
+  @query('input[type="file"]') private fileInput!: HTMLInputElement;
+
+  private dispatch(type: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(type, {bubbles: true, composed: true, detail}),
+    );
+  }
+
+  private handleSetChange(e: Event) {
+    const target = e.target as HTMLSelectElement;
+    this.dispatch('embedding-set-selected', {
+      custom: target.value === CUSTOM_VALUE,
+    });
+  }
+
+  private handleFileChange() {
+    const files = Array.from(this.fileInput.files ?? []);
+    this.fileInput.value = '';
+    if (files.length > 0) {
+      this.dispatch('embedding-files-selected', {files});
+    }
+  }
+
+  private renderStatus() {
+    if (this.isLoading) {
+      return html`<span class="status">Loading…</span>`;
+    }
+    if (this.error) {
+      return html`<span class="status error">${this.error}</span>`;
+    }
+    if (this.customSet) {
+      const {embeddings, dimensions} = this.customSet;
+      return html`<span class="status">
+        ${embeddings.size} embeddings · ${dimensions} dimensions
+      </span>`;
+    }
+    return html`<span class="status">
+      Load a JSON map, a CSV file, or an NPY file and its labels, or drop them
+      anywhere.
+    </span>`;
+  }
+
+  override render() {
+    const value = this.isCustomSetActive ? CUSTOM_VALUE : BUILT_IN_VALUE;
+    return html`
+      <div class="flex-row">
+        <md-outlined-select
+          label="Embeddings"
+          .value=${value}
+          @change=${this.handleSetChange}>
+          <md-select-option
+            value=${BUILT_IN_VALUE}
+            ?selected=${value === BUILT_IN_VALUE}>
+            <div slot="headline">Built-in genres</div>
+          </md-select-option>
+          ${when(
+            this.customSet,
+            () => html`
+              <md-select-option
+                value=${CUSTOM_VALUE}
+                ?selected=${value === CUSTOM_VALUE}>
+                <div slot="headline">${this.customSet!.name}</div>
+              </md-select-option>
+            `,
+          )}
+        </md-outlined-select>
+        <md-outlined-button
+          ?disabled=${this.isLoading}
+          @click=${() => this.fileInput.click()}>
+          Load Embeddings
+        </md-outlined-button>
+        <input
+          type="file"
+          multiple
+          accept=".json,.csv,.bin,.npy,.txt"
+          @change=${this.handleFileChange} />
+        ${this.renderStatus()}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'embedding-set-picker': EmbeddingSetPicker;
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Parses embedding sets loaded at runtime from JSON, CSV or NPY
+ * files.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {unpackEmbeddings} from './packed_embeddings';
+
+const NPY_MAGIC = '\x93NUMPY';
+
+/**
+ * Labeled embeddings to explore instead of the built-in genres.
+ */
+export interface EmbeddingSet {
+  /** Where the set was loaded from, e.g. a file name. */
+  name: string;
+  embeddings: Map<string, number[]>;
+  /** The number of dimensions of every embedding. */
+  dimensions: number;
+}
+
+/**
+ * Loads an embedding set from files, either one JSON, CSV or packed embeddings
+ * file, or an NPY matrix with a labels file next to it.
+ *
+ * @throws If the files are not a supported embedding set.
+ */
+export async function loadEmbeddingFiles(files: File[]): Promise<EmbeddingSet> {
+  const npyFile = files.find((file) => hasExtension(file.name, 'npy'));
+  if (npyFile) {
+    const labelsFile = files.find((file) => file !== npyFile);
+    if (!labelsFile) {
+      throw new Error('Select a labels file along with the NPY file.');
+    }
+    return parseNpyEmbeddings(
+      npyFile.name,
+      await npyFile.arrayBuffer(),
+      await labelsFile.text(),
+    );
+  }
+  if (files.length !== 1) {
+    throw new Error('Select one JSON or CSV file, or an NPY and labels file.');
+  }
+  if (hasExtension(files[0].name, 'bin')) {
+    return parsePackedEmbeddings(files[0].name, await files[0].arrayBuffer());
+  }
+  return parseEmbeddingText(files[0].name, await files[0].text());
+}
+
+/**
+ * Fetches an embedding set, e.g. from a URL param.
+ *
+ * @param url A JSON, CSV, packed embeddings or NPY file.
+ * @param labelsUrl The labels of an NPY file.
+ * @throws If the files cannot be fetched or are not a supported embedding set.
+ */
+export async function fetchEmbeddingSet(
+  url: string,
+  labelsUrl?: string | null,
+): Promise<EmbeddingSet> {
+  const response = await fetchOk(url);
+  const name = url.split('/').at(-1) ?? url;
+  const path = new URL(url, window.location.href).pathname;
+  if (hasExtension(path, 'bin')) {
+    return parsePackedEmbeddings(name, await response.arrayBuffer());
+  }
+  if (hasExtension(path, 'npy')) {
+    if (!labelsUrl) {
+      throw new Error('NPY embeddings need a labels URL.');
+    }
+    const labelsResponse = await fetchOk(labelsUrl);
+    return parseNpyEmbeddings(
+      name,
+      await response.arrayBuffer(),
+      await labelsResponse.text(),
+    );
+  }
+  return parseEmbeddingText(name, await response.text());
+}
+
+async function fetchOk(url: string): Promise<Response> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}.`);
+  }
+  return response;
+}
+
+function hasExtension(fileName: string, extension: string): boolean {
+  return fileName.toLowerCase().endsWith(`.${extension}`);
+}
+
+// Parses a JSON map from labels to vectors, or CSV rows of a label followed
+// by the vector.
+function parseEmbeddingText(name: string, text: string): EmbeddingSet {
+  const isJson = hasExtension(name, 'json') || text.trimStart().startsWith('{');
+  const entries = isJson ? parseJsonEntries(text) : parseCsvEntries(text);
+  return createEmbeddingSet(name, entries);
+}
+
+function parseJsonEntries(text: string): Array<[string, number[]]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The embeddings are not valid JSON.');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('The JSON embeddings must map labels to vectors.');
+  }
+  return Object.entries(data).map(([label, vector]) => {
+    if (!Array.isArray(vector) || !vector.every(Number.isFinite)) {
+      throw new Error(`The embedding of "${label}" is not a list of numbers.`);
+    }
+    return [label, vector];
+  });
+}
+
+function parseCsvEntries(text: string): Array<[string, number[]]> {
+  const rows = parseCsv(text);
+  // Skip a header row.
+  if (rows.length > 0 && rows[0].slice(1).some((cell) => isNaN(Number(cell)))) {
+    rows.shift();
+  }
+  return rows.map((row, i) => {
+    const vector = row.slice(1).map(Number);
+    if (vector.length === 0 || !vector.every(Number.isFinite)) {
+      throw new Error(`Row ${i + 1} of the CSV is not a label and numbers.`);
+    }
+    return [row[0], vector];
+  });
+}
+
+// Splits CSV text into rows of cells, allowing quoted cells with commas.
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue;
+    }
+    const cells: string[] = [];
+    let cell = '';
+    let isQuoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (isQuoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          isQuoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        isQuoted = true;
+      } else if (char === ',') {
+        cells.push(cell.trim());
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell.trim());
+    rows.push(cells);
+  }
+  return rows;
+}
+
+function parsePackedEmbeddings(
+  name: string,
+  buffer: ArrayBuffer,
+): EmbeddingSet {
+  return createEmbeddingSet(name, Array.from(unpackEmbeddings(buffer)));
+}
+
+function parseNpyEmbeddings(
+  name: string,
+  buffer: ArrayBuffer,
+  labelsText: string,
+): EmbeddingSet {
+  const {rows, columns, data} = parseNpy(buffer);
+  const labels = parseLabels(labelsText);
+  if (labels.length !== rows) {
+    throw new Error(
+      `The NPY file has ${rows} rows but there are ${labels.length} labels.`,
+    );
+  }
+  return createEmbeddingSet(
+    name,
+    labels.map((label, i) => [
+      label,
+      Array.from(data.subarray(i * columns, (i + 1) * columns)),
+    ]),
+  );
+}
+
+// Parses a JSON array of labels, or one label per line.
+function parseLabels(text: string): string[] {
+  if (text.trimStart().startsWith('[')) {
+    try {
+      const labels = JSON.parse(text);
+      if (Array.isArray(labels)) {
+        return labels.map(String);
+      }
+    } catch {
+      // Fall back to one label per line.
+    }
+  }
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+// Reads a two dimensional float matrix saved with numpy.save.
+// https://numpy.org/doc/stable/reference/generated/numpy.lib.format.html
+function parseNpy(buffer: ArrayBuffer): {
+  rows: number;
+  columns: number;
+  data: Float32Array | Float64Array;
+} {
+  const bytes = new Uint8Array(buffer);
+  const magic = String.fromCharCode(...bytes.subarray(0, NPY_MAGIC.length));
+  if (magic !== NPY_MAGIC) {
+    throw new Error('The file is not an NPY file.');
+  }
+  const view = new DataView(buffer);
+  const majorVersion = bytes[6];
+  const headerLengthSize = majorVersion === 1 ? 2 : 4;
+  const headerLength =
+    headerLengthSize === 2 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const dataOffset = 8 + headerLengthSize + headerLength;
+  const header = new TextDecoder().decode(
+    bytes.subarray(8 + headerLengthSize, dataOffset),
+  );
+
+  const descr = header.match(/'descr':\s*'([^']+)'/)?.[1];
+  if (descr !== '<f4' && descr !== '<f8') {
+    throw new Error(`Unsupported NPY data type ${descr}, use float32.`);
+  }
+  if (/'fortran_order':\s*True/.test(header)) {
+    throw new Error('Fortran ordered NPY files are not supported.');
+  }
+  const shape = header
+    .match(/'shape':\s*\(([^)]*)\)/)?.[1]
+    .split(',')
+    .map((size) => size.trim())
+    .filter((size) => size.length > 0)
+    .map(Number);
+  if (!shape || shape.length !== 2) {
+    throw new Error('The NPY file must contain a two dimensional matrix.');
+  }
+  const [rows, columns] = shape;
+  // Copy the data, which may not be aligned in the file.
+  const byteLength = rows * columns * (descr === '<f4' ? 4 : 8);
+  const values = buffer.slice(dataOffset, dataOffset + byteLength);
+  if (values.byteLength !== byteLength) {
+    throw new Error('The NPY file is truncated.');
+  }
+  const data =
+    descr === '<f4' ? new Float32Array(values) : new Float64Array(values);
+  return {rows, columns, data};
+}
+
+function createEmbeddingSet(
+  name: string,
+  entries: Array<[string, number[]]>,
+): EmbeddingSet {
+  if (entries.length === 0) {
+    throw new Error('The file contains no embeddings.');
+  }
+  const dimensions = entries[0][1].length;
+  const mismatch = entries.find(([, vector]) => vector.length !== dimensions);
+  if (mismatch) {
+    throw new Error(
+      `The embedding of "${mismatch[0]}" has ${mismatch[1].length} dimensions, expected ${dimensions}.`,
+    );
+  }
+  const embeddings = new Map<string, number[]>();
+  for (const [label, vector] of entries) {
+    if (embeddings.has(label)) {
+      throw new Error(`The label "${label}" appears more than once.`);
+    }
+    embeddings.set(label, vector);
+  }
+  return {name, embeddings, dimensions};
+}
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Vite plugin serving the built-in embeddings in the packed
+ * binary format.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {type Plugin} from 'vite';
+import {EMBEDDINGS} from './embeddings';
+import {PACKED_EMBEDDINGS_PATH, packEmbeddings} from './packed_embeddings';
+
+/**
+ * Packs `EMBEDDINGS` when building, and serves them packed from the dev
+ * server, so the app can fetch them instead of bundling them.
+ */
+export function packedEmbeddingsPlugin(): Plugin {
+  let packed: Uint8Array | null = null;
+  const getPacked = () => (packed ??= packEmbeddings(EMBEDDINGS));
+  return {
+    name: 'packed-embeddings',
+    configureServer(server) {
+      server.middlewares.use(`/${PACKED_EMBEDDINGS_PATH}`, (req, res) => {
+        res.setHeader('Content-Type', 'application/octet-stream');
+        res.end(getPacked());
+      });
+    },
+    generateBundle() {
+      this.emitFile({
+        type: 'asset',
+        fileName: PACKED_EMBEDDINGS_PATH,
+        source: getPacked(),
+      });
+    },
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * @fileoverview Gamepad flight controls.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {type FlightAxes} from './spaceship';
+
+const STORAGE_KEY = 'gamepadSettings';
+
+// Axes and buttons of the standard gamepad layout.
+// https://w3c.github.io/gamepad/#remapping
+const LEFT_STICK_X = 0;
+const LEFT_STICK_Y = 1;
+const RIGHT_STICK_X = 2;
+const RIGHT_STICK_Y = 3;
+const LEFT_TRIGGER = 6;
+const RIGHT_TRIGGER = 7;
+
+/**
+ * Something a gamepad button does when pressed.
+ */
+export type GamepadAction = 'select' | 'autopilot' | 'playPause';
+
+const BUTTON_ACTIONS: Array<[button: number, action: GamepadAction]> = [
+  [0, 'select'], // A
+  [3, 'autopilot'], // Y
+  [9, 'playPause'], // Start
+];
+
+/**
+ * The user adjustable settings of the gamepad.
+ */
+export interface GamepadSettings {
+  /** Stick deflection ignored around the center, between 0 and 1. */
+  stickDeadzone: number;
+  /** Trigger travel ignored before the triggers engage, between 0 and 1. */
+  triggerDeadzone: number;
+  /** Scales the left stick, which moves the ship. */
+  moveSensitivity: number;
+  /** Scales the right stick, which turns the ship. */
+  lookSensitivity: number;
+  /** Whether pushing the right stick up points the nose down. */
+  invertPitch: boolean;
+}
+
+export const DEFAULT_GAMEPAD_SETTINGS: GamepadSettings = {
+  stickDeadzone: 0.15,
+  triggerDeadzone: 0.05,
+  moveSensitivity: 1,
+  lookSensitivity: 1,
+  invertPitch: false,
+};
+
+/**
+ * Loads the gamepad settings saved in a previous session.
+ */
+export function loadGamepadSettings(): GamepadSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {...DEFAULT_GAMEPAD_SETTINGS, ...saved};
+  } catch (e) {
+    console.warn('Failed to load gamepad settings.', e);
+    return {...DEFAULT_GAMEPAD_SETTINGS};
+  }
+}
+
+/**
+ * Saves the gamepad settings for the next session.
+ */
+export function saveGamepadSettings(settings: GamepadSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Reads the flight axes from the sticks and triggers of a gamepad: the left
+ * stick moves, the right stick turns, the right trigger speeds up and the left
+ * trigger slows down.
+ */
+export function readFlightAxes(
+  gamepad: Gamepad,
+  settings: GamepadSettings,
+): FlightAxes {
+  const [moveX, moveY] = applyStickDeadzone(
+    gamepad.axes[LEFT_STICK_X] ?? 0,
+    gamepad.axes[LEFT_STICK_Y] ?? 0,
+    settings.stickDeadzone,
+  );
+  const [lookX, lookY] = applyStickDeadzone(
+    gamepad.axes[RIGHT_STICK_X] ?? 0,
+    gamepad.axes[RIGHT_STICK_Y] ?? 0,
+    settings.stickDeadzone,
+  );
+  const trigger = (button: number) =>
+    applyDeadzone(
+      gamepad.buttons[button]?.value ?? 0,
+      settings.triggerDeadzone,
+    );
+  // Stick axes point down and right, flight axes up and left.
+  const pitch = -lookY * settings.lookSensitivity;
+  return {
+    thrust: -moveY * settings.moveSensitivity,
+    strafe: -moveX * settings.moveSensitivity,
+    pitch: settings.invertPitch ? -pitch : pitch,
+    yaw: -lookX * settings.lookSensitivity,
+    boost: trigger(RIGHT_TRIGGER) - trigger(LEFT_TRIGGER),
+  };
+}
+
+// Ignores small values, and rescales the rest to start from 0 at the edge of
+// the deadzone.
+function applyDeadzone(value: number, deadzone: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadzone) {
+    return 0;
+  }
+  return (Math.sign(value) * (magnitude - deadzone)) / (1 - deadzone);
+}
+
+// A radial deadzone, so diagonals are not snapped to the axes.
+function applyStickDeadzone(
+  x: number,
+  y: number,
+  deadzone: number,
+): [number, number] {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude <= deadzone) {
+    return [0, 0];
+  }
+  const scale = applyDeadzone(Math.min(magnitude, 1), deadzone) / magnitude;
+  return [x * scale, y * scale];
+}
+
+/**
+ * Polls the first connected gamepad on every animation frame.
+ */
+export class GamepadController {
+  private settings: GamepadSettings;
+  private animationFrameId?: number;
+  private pressedButtons = new Set<number>();
+  private gamepadName: string | null = null;
+
+  /**
+   * @param onAxes Called on every frame with the flight axes, and with null
+   *     once the gamepad is disconnected.
+   * @param onAction Called when a button is pressed.
+   * @param onConnectionChanged Called when a gamepad is connected or
+   *     disconnected.
+   */
+  constructor(
+    settings: GamepadSettings,
+    private readonly onAxes: (axes: FlightAxes | null) => void,
+    private readonly onAction: (action: GamepadAction) => void,
+    private readonly onConnectionChanged: () => void,
+  ) {
+    this.settings = settings;
+  }
+
+  /**
+   * Starts listening for gamepads. Browsers only expose a gamepad after one
+   * of its buttons is pressed.
+   */
+  start() {
+    window.addEventListener('gamepadconnected', this.onGamepadConnected);
+    window.addEventListener('gamepaddisconnected', this.onGamepadDisconnected);
+    if (this.getGamepad()) {
+      this.onGamepadConnected();
+    }
+  }
+
+  setSettings(settings: GamepadSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Returns the name of the connected gamepad, or null if there is none.
+   */
+  getGamepadName(): string | null {
+    return this.gamepadName;
+  }
+
+  private getGamepad(): Gamepad | null {
+    if (!navigator.getGamepads) {
+      return null;
+    }
+    return (
+      navigator.getGamepads().find((gamepad) => gamepad?.connected) ?? null
+    );
+  }
+
+  private readonly onGamepadConnected = () => {
+    this.gamepadName = this.getGamepad()?.id ?? null;
+    this.onConnectionChanged();
+    if (this.animationFrameId === undefined) {
+      this.poll();
+    }
+  };
+
+  private readonly onGamepadDisconnected = () => {
+    const gamepad = this.getGamepad();
+    this.gamepadName = gamepad?.id ?? null;
+    this.onConnectionChanged();
+    if (!gamepad) {
+      this.stopPolling();
+    }
+  };
+
+  private readonly poll = () => {
+    this.animationFrameId = requestAnimationFrame(this.poll);
+    const gamepad = this.getGamepad();
+    if (!gamepad) {
+      return;
+    }
+    this.onAxes(readFlightAxes(gamepad, this.settings));
+    for (const [button, action] of BUTTON_ACTIONS) {
+      const isPressed = gamepad.buttons[button]?.pressed ?? false;
+      if (isPressed && !this.pressedButtons.has(button)) {
+        this.onAction(action);
+      }
+      if (isPressed) {
+        this.pressedButtons.add(button);
+      } else {
+        this.pressedButtons.delete(button);
+      }
+    }
+  };
+
+  private stopPolling() {
+    if (this.animationFrameId !== undefined) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = undefined;
+    }
+    this.pressedButtons.clear();
+    this.onAxes(null);
+  }
+
+  /**
+   * Stops polling and listening for gamepads.
+   */
+  dispose() {
+    window.removeEventListener('gamepadconnected', this.onGamepadConnected);
+    window.removeEventListener(
+      'gamepaddisconnected',
+      this.onGamepadDisconnected,
+    );
+    this.stopPolling();
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Controls for the gamepad deadzones and sensitivity.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import '@material/web/all.js';
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {type GamepadSettings} from './gamepad';
+import {MD_STYLES} from './styles';
+
+interface SliderSpec {
+  property: keyof GamepadSettings;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const SLIDERS: SliderSpec[] = [
+  {
+    property: 'stickDeadzone',
+    label: 'Stick Deadzone',
+    min: 0,
+    max: 0.5,
+    step: 0.01,
+  },
+  {
+    property: 'triggerDeadzone',
+    label: 'Trigger Deadzone',
+    min: 0,
+    max: 0.5,
+    step: 0.01,
+  },
+  {
+    property: 'moveSensitivity',
+    label: 'Move Sensitivity',
+    min: 0.25,
+    max: 2,
+    step: 0.05,
+  },
+  {
+    property: 'lookSensitivity',
+    label: 'Look Sensitivity',
+    min: 0.25,
+    max: 2,
+    step: 0.05,
+  },
+];
+
+/**
+ * A component for tuning the gamepad flight controls.
+ */
+@customElement('gamepad-settings')
+export class GamepadSettingsComponent extends LitElement {
+  static override styles = [
+    MD_STYLES,
+    css`
+      :host {
+        display: block;
+        width: fit-content;
+      }
+      .flex-row {
+        background: rgba(26, 26, 26, 0.5);
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        padding: 6px 0px;
+        width: fit-content;
+        gap: 8px;
+      }
+      .slider-label {
+        display: flex;
+        flex-direction: column;
+        color: var(--md-sys-color-on-surface-variant);
+        font-size: 12px;
+        white-space: nowrap;
+      }
+      md-slider {
+        width: 120px;
+      }
+      .checkbox-label {
+        display: flex;
+        align-items: center;
+        color: var(--md-sys-color-on-surface-variant);
+        font-size: 14px;
+        gap: 8px;
+        white-space: nowrap;
+        cursor: pointer;
+      }
+      .checkbox-label:hover {
+        color: var(--md-sys-color-on-primary);
+      }
+      .status {
+        color: var(--md-sys-color-on-surface-variant);
+        font-size: 12px;
+      }
+    `,
+  ];
+
+  @property({type: Object}) settings!: GamepadSettings;
+  /** The name of the connected gamepad, if any. */
+  @property({type: String}) gamepadName: string | null = null;
+
+  private dispatchChange(property: keyof GamepadSettings, value: unknown) {
+    this.dispatchEvent(
+      new CustomEvent('gamepad-settings-changed', {
+        bubbles: true,
+        composed: true,
+        detail: {property, value},
+      }),
+    );
+  }
+
+  private handleSliderChange(e: Event) {
+    const target = e.target as HTMLInputElement;
+    const property = target.dataset['property'] as keyof GamepadSettings;
+    if (!property || !this.settings || !(property in this.settings)) {
+      console.error('failed to find gamepad setting', property);
+      return;
+    }
+    this.dispatchChange(property, Number(target.value));
+  }
+
+  private handleInvertPitchChange(e: Event) {
+    const target = e.target as HTMLInputElement & {checked: boolean};
+    this.dispatchChange('invertPitch', target.checked);
+  }
+
+  override render() {
+    if (!this.settings) {
+      return html``;
+    }
+    const status =
+      this.gamepadName ??
+      'No gamepad connected. Press a button on it to connect.';
+    return html`
+      <div class="flex-row">
+        ${SLIDERS.map(
+          (slider) => html`
+            <label class="slider-label">
+              ${slider.label}
+              <md-slider
+                labeled
+                min=${slider.min}
+                max=${slider.max}
+                step=${slider.step}
+                .value=${this.settings[slider.property] as number}
+                data-property=${slider.property}
+                @change=${this.handleSliderChange}></md-slider>
+            </label>
+          `,
+        )}
+        <label class="checkbox-label">
+          Invert Pitch
+          <md-checkbox
+            ?checked=${this.settings.invertPitch}
+            @change=${this.handleInvertPitchChange}></md-checkbox>
+        </label>
+        <span class="status">${status}</span>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gamepad-settings': GamepadSettingsComponent;
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview A search box with fuzzy autocomplete over the genres.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+import {when} from 'lit/directives/when.js';
+
+const MAX_RESULTS = 8;
+
+/**
+ * A label matching a query, with the indices of the matched characters.
+ */
+interface SearchResult {
+  label: string;
+  score: number;
+  matches: number[];
+}
+
+/**
+ * A search box suggesting genres as the user types. Picking one fires
+ * `genre-picked` with the label.
+ */
+@customElement('genre-search')
+export class GenreSearch extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      position: relative;
+      width: 220px;
+      font-family: sans-serif;
+    }
+    input {
+      box-sizing: border-box;
+      width: 100%;
+      padding: 8px 12px;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 18px;
+      background: rgba(26, 26, 26, 0.7);
+      color: #e0e0e0;
+      font-size: 14px;
+      outline: none;
+    }
+    input:focus {
+      border-color: #f0b400;
+    }
+    .results {
+      position: absolute;
+      top: calc(100% + 4px);
+      left: 0;
+      right: 0;
+      margin: 0;
+      padding: 4px 0;
+      list-style: none;
+      background: rgba(26, 26, 26, 0.9);
+      border: 1px solid rgba(255, 255, 255, 0.1);
+      border-radius: 8px;
+      backdrop-filter: blur(4px);
+      z-index: 1;
+    }
+    .result {
+      display: flex;
+      justify-content: space-between;
+      gap: 8px;
+      padding: 4px 12px;
+      color: #e0e0e0;
+      font-size: 13px;
+      cursor: pointer;
+    }
+    .result.active {
+      background: rgba(255, 255, 255, 0.1);
+    }
+    .result mark {
+      background: none;
+      color: #f0b400;
+    }
+    .note {
+      color: #a1a1a1;
+      font-size: 11px;
+      white-space: nowrap;
+    }
+  `;
+
+  /** The labels to search. */
+  @property({type: Array}) labels: string[] = [];
+  /** The labels of the rendered points, which can be flown to directly. */
+  @property({type: Object}) renderedLabels = new Set<string>();
+
+  @state() private query = '';
+  @state() private activeIndex = 0;
+  @state() private isOpen = false;
+
+  private getResults(): SearchResult[] {
+    return fuzzySearch(this.query, this.labels).slice(0, MAX_RESULTS);
+  }
+
+  private pick(label: string) {
+    this.query = '';
+    this.isOpen = false;
+    this.shadowRoot?.querySelector('input')?.blur();
+    this.dispatchEvent(
+      new CustomEvent('genre-picked', {
+        bubbles: true,
+        composed: true,
+        detail: {label},
+      }),
+    );
+  }
+
+  private handleInput(e: Event) {
+    this.query = (e.target as HTMLInputElement).value;
+    this.activeIndex = 0;
+    this.isOpen = true;
+  }
+
+  private handleKeyDown(e: KeyboardEvent) {
+    // Keep typing from steering the ship or toggling playback.
+    e.stopPropagation();
+    const results = this.getResults();
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      this.activeIndex = Math.min(this.activeIndex + 1, results.length - 1);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      this.activeIndex = Math.max(this.activeIndex - 1, 0);
+    } else if (e.key === 'Enter' && results[this.activeIndex]) {
+      this.pick(results[this.activeIndex].label);
+    } else if (e.key === 'Escape') {
+      this.isOpen = false;
+      (e.target as HTMLInputElement).blur();
+    }
+  }
+
+  private renderLabel({label, matches}: SearchResult) {
+    const matched = new Set(matches);
+    return Array.from(label, (char, i) =>
+      matched.has(i) ? html`<mark>${char}</mark>` : char,
+    );
+  }
+
+  private renderResults() {
+    const results = this.getResults();
+    if (results.length === 0) {
+      return html``;
+    }
+    return html`
+      <ul class="results">
+        ${results.map(
+          (result, i) => html`
+            <li
+              class=${classMap({
+                'result': true,
+                'active': i === this.activeIndex,
+              })}
+              @mousedown=${(e: MouseEvent) => {
+                // Pick before the input loses focus and closes the list.
+                e.preventDefault();
+                this.pick(result.label);
+              }}
+              @mouseenter=${() => {
+                this.activeIndex = i;
+              }}>
+              <span>${this.renderLabel(result)}</span>
+              ${when(
+                !this.renderedLabels.has(result.label),
+                () => html`<span class="note">Swap in</span>`,
+              )}
+            </li>
+          `,
+        )}
+      </ul>
+    `;
+  }
+
+  override render() {
+    return html`
+      <input
+        type="search"
+        placeholder="Search genres"
+        aria-label="Search genres"
+        .value=${this.query}
+        @input=${this.handleInput}
+        @keydown=${this.handleKeyDown}
+        @keyup=${(e: KeyboardEvent) => {
+          e.stopPropagation();
+        }}
+        @focus=${() => {
+          this.isOpen = true;
+        }}
+        @blur=${() => {
+          this.isOpen = false;
+        }} />
+      ${when(this.isOpen && this.query.trim(), () => this.renderResults())}
+    `;
+  }
+}
+
+/**
+ * Ranks the labels containing the characters of the query in order, best
+ * matches first. Matches at word starts and runs of consecutive characters
+ * score higher, and shorter labels break ties.
+ */
+function fuzzySearch(query: string, labels: string[]): SearchResult[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return [];
+  }
+  const results: SearchResult[] = [];
+  for (const label of labels) {
+    const haystack = label.toLowerCase();
+    const matches: number[] = [];
+    let score = 0;
+    let from = 0;
+    for (const char of needle) {
+      const index = haystack.indexOf(char, from);
+      if (index === -1) {
+        break;
+      }
+      const isWordStart = index === 0 || /[\s\-&/]/.test(haystack[index - 1]);
+      const isConsecutive = matches.at(-1) === index - 1;
+      score += 1 + (isWordStart ? 2 : 0) + (isConsecutive ? 3 : 0);
+      matches.push(index);
+      from = index + 1;
+    }
+    if (matches.length < needle.length) {
+      continue;
+    }
+    if (haystack.startsWith(needle)) {
+      score += 10;
+    }
+    results.push({label, score: score - label.length / 100, matches});
+  }
+  return results.sort((a, b) => b.score - a.score);
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'genre-search': GenreSearch;
+  }
+}
@@ -205,6 +205,24 @@ export class PlayPauseButton extends IconButton {
   }
 }
 
+/** A button for recording the live mix. */
+@customElement('record-button')
+export class RecordButton extends IconButton {
+  @property({type: Boolean, reflect: true}) recording = false;
+
+  private renderRecordIcon() {
+    return svg`<circle cx="70" cy="54" r="14" fill="#fefefe" />`;
+  }
+
+  private renderStopIcon() {
+    return svg`<rect x="58" y="42" width="24" height="24" rx="3" fill="#ff4d4d" />`;
+  }
+
+  override renderIcon() {
+    return this.recording ? this.renderStopIcon() : this.renderRecordIcon();
+  }
+}
+
 /** A button for resetting playback state. */
 @customElement('reset-button')
 export class ResetButton extends IconButton {
@@ -322,6 +340,31 @@ export class VocalsButton extends IconButton {
   }
 }
 
+/** A button for switching between one and two decks. */
+@customElement('decks-button')
+export class DecksButton extends IconButton {
+  @property({type: Boolean, reflect: true}) active = false;
+
+  static override styles = [
+    IconButton.styles,
+    css`
+      :host([active]) svg circle {
+        stroke: var(--md-sys-color-primary);
+      }
+    `,
+  ];
+
+  override renderIcon() {
+    // Two records side by side.
+    return svg`<g fill="none" stroke="#fefefe" stroke-width="3">
+      <circle cx="58" cy="54" r="13" />
+      <circle cx="58" cy="54" r="3" />
+      <circle cx="82" cy="54" r="13" />
+      <circle cx="82" cy="54" r="3" />
+    </g>`;
+  }
+}
+
 /** A button for closing a component. */
 @customElement('close-button')
 export class CloseButton extends IconButton {
@@ -487,11 +530,13 @@ declare global {
   interface HTMLElementTagNameMap {
     'play-pause-button': PlayPauseButton;
     'reset-button': ResetButton;
+    'record-button': RecordButton;
     'settings-button': SettingsButton;
     'collapse-button': CollapseButton;
     'autopilot-button': AutopilotButton;
     'info-button': InfoButton;
     'vocals-button': VocalsButton;
+    'decks-button': DecksButton;
     'close-button': CloseButton;
     'arrows-icon': ArrowsIcon;
     'wasd-icon': WasdIcon;
@@ -10,23 +10,79 @@ import {classMap} from 'lit/directives/class-map.js';
 import {when} from 'lit/directives/when.js';
 
 import './icon_button';
+import './cluster_legend';
+import './embedding_set_picker';
+import './gamepad_settings';
+import './genre_search';
+import './master_bus_settings';
+import './midi_settings';
+import './music_config_settings';
 import './space';
 import './space_settings';
+import './timeline_panel';
 import './toast';
 import './tooltip';
 
+import {MusicGenerationMode} from '@google/genai';
+import {type Cluster} from './clustering';
+import {Crossfader} from './crossfader';
+import {Deck, type ConnectionState, type DeckHost, type DeckId} from './deck';
 import {
-  GoogleGenAI,
-  MusicGenerationMode,
-  type LiveMusicServerMessage,
-  type LiveMusicSession,
-} from '@google/genai';
-import {EMBEDDINGS} from './embeddings';
+  fetchEmbeddingSet,
+  loadEmbeddingFiles,
+  type EmbeddingSet,
+} from './embedding_sets';
+import {
+  GamepadController,
+  loadGamepadSettings,
+  saveGamepadSettings,
+  type GamepadAction,
+  type GamepadSettings,
+} from './gamepad';
+import {type JitterBufferStats} from './jitter_buffer';
+import {LayoutCache, type LayoutCacheStats} from './layout_cache';
+import {
+  MasterBus,
+  loadMasterBusSettings,
+  saveMasterBusSettings,
+  type MasterBusSettings,
+} from './master_bus';
+import {LyriaBackend, type MusicBackend} from './music_backend';
+import {
+  BOOLEAN_FIELDS,
+  isGenerationSetting,
+  loadMusicConfig,
+  NUMBER_FIELDS,
+  requiresResetContext,
+  saveMusicConfig,
+  toLiveMusicGenerationConfig,
+  TRANSITION_QUANTIZATION_LABELS,
+  type MusicConfig,
+} from './music_config';
+import {
+  MidiController,
+  VirtualMidiSource,
+  WebMidiSource,
+  type MidiInput,
+  type MidiTarget,
+} from './midi';
+import {MixCapture} from './mix_capture';
+import {fetchPackedEmbeddings} from './packed_embeddings';
+import {type PromptChannel} from './prompt_mixer';
+import {type ProjectionMethod} from './projection';
+import {MixRecorder} from './recorder';
+import {NO_FLIGHT_AXES, type FlightAxes} from './spaceship';
 import {MD_STYLES, SPACE_DJ_STYLES} from './styles';
+import {SyntheticBackend} from './synthetic_backend';
+import {
+  parseTimeline,
+  PromptTimeline,
+  TimelinePlayer,
+  type TimelineEvent,
+} from './timeline';
 import {ToastMessage} from './toast';
-import {decode, decodeAudioData, throttle} from './utils';
+import {formatBytes} from './utils';
 
-const LYRIA_RT_MODEL = 'lyria-realtime-exp';
 const NAVIGATION_KEYS = new Set([
   'KeyW',
   'KeyA',
@@ -38,12 +94,13 @@ const NAVIGATION_KEYS = new Set([
   'ArrowRight',
 ]);
 
-interface Prompt {
-  text: string;
-  weight: number;
-}
-
-type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+// How far the crossfader moves on each key press.
+const CROSSFADER_STEP = 0.1;
+// MIDI knobs and faders this close to their center leave a flight axis at
+// rest.
+const MIDI_AXIS_DEADZONE = 0.05;
+// Music config changes from MIDI are sent at most this often, in ms.
+const MIDI_CONFIG_INTERVAL = 150;
 
 /** Component for the SpaceDJ UI. */
 @customElement('space-dj')
@@ -51,37 +108,154 @@ class SpaceDJ extends LitElement {
   static override styles = [MD_STYLES, SPACE_DJ_STYLES];
 
   @property({type: Object}) embeddingsCache!: Map<string, number[]>;
-  @property({
-    type: Object,
-    attribute: false,
-  })
-  private prompts = new Map<string, Prompt>();
-  private session: LiveMusicSession;
+  private readonly urlParams = new URLSearchParams(window.location.search);
   private readonly sampleRate = 48000;
   private readonly audioContext = new (window.AudioContext ||
     window.webkitAudioContext)({sampleRate: this.sampleRate});
-  private outputNode: GainNode = this.audioContext.createGain();
-  private nextStartTime = 0;
-  private readonly bufferTime = 2; // adds an audio buffer in case of netowrk latency
-  @state() private playbackState: PlaybackState = 'stopped';
-  @state({type: Object})
-  private filteredPrompts = new Set<string>();
-  private connectionError = true;
-  private isConnecting = false;
+  @state() private masterBusSettings: MasterBusSettings =
+    loadMasterBusSettings();
+  @state() private musicConfig: MusicConfig = loadMusicConfig();
+  private readonly masterBus = new MasterBus(
+    this.audioContext,
+    this.masterBusSettings,
+  );
+  private readonly crossfader = new Crossfader(
+    this.audioContext,
+    this.masterBus.input,
+  );
   private isTouchDevice = false;
   @state() private areVocalsEnabled = false;
+  private readonly deckHost: DeckHost = {
+    onDeckStateChanged: () => {
+      this.requestUpdate();
+    },
+    onDeckConnected: () => {
+      if (!this.isTouchDevice) {
+        this.toastMessage.hide();
+      }
+    },
+    showDeckMessage: (deck, message) => {
+      this.toastMessage.show(
+        this.isTwoDeckMode ? `Deck ${deck.id}: ${message}` : message,
+      );
+    },
+    onSessionUpdated: (deck, update) => {
+      if (this.timelinePlayer) {
+        // Replayed changes are already in the timeline.
+        return;
+      }
+      this.timeline.record(deck.id, update);
+      this.timelineEvents = this.timeline.getEvents();
+    },
+    getMusicConfig: () => this.musicConfig,
+    getMusicGenerationConfig: () =>
+      toLiveMusicGenerationConfig(
+        this.musicConfig,
+        this.areVocalsEnabled
+          ? MusicGenerationMode.VOCALIZATION
+          : MusicGenerationMode.QUALITY,
+      ),
+  };
+  // Deck A, and deck B in two-deck mode. Deck i plays the prompts selected by
+  // ship i in the space.
+  private readonly decks: Deck[] = [this.createDeck('A')];
+  @state() private isTwoDeckMode = false;
+  // The deck controlled by the transport buttons and shown in the prompt list.
+  @state() private focusedDeck = 0;
+  // The deck whose ship is flown by the autopilot.
+  @state() private autopilotDeck = 0;
+  @state() private isAutopilotActive = false;
+  @state() private crossfaderPosition = 0;
+  private readonly timeline = new PromptTimeline(
+    () => this.audioContext.currentTime,
+  );
+  @state() private timelineEvents: TimelineEvent[] = [];
+  private timelinePlayer: TimelinePlayer | null = null;
+  @state() private timelinePlayedCount: number | null = null;
+  @state() private gamepadSettings: GamepadSettings = loadGamepadSettings();
+  private readonly gamepadController = new GamepadController(
+    this.gamepadSettings,
+    (axes) => {
+      this.shadowRoot
+        ?.querySelector('space-component')
+        ?.setFlightAxes('gamepad', axes);
+    },
+    (action) => {
+      this.handleGamepadAction(action);
+    },
+    () => {
+      this.requestUpdate();
+    },
+  );
+  private readonly midiController = new MidiController(
+    (input) => {
+      this.handleMidiInput(input);
+    },
+    () => {
+      this.requestUpdate();
+    },
+  );
+  private isMidiConnectionStarted = false;
+  /**
+   * The virtual MIDI input added with `?midi=virtual`, so mappings can be
+   * tried out from the console or a test script.
+   */
+  virtualMidi?: VirtualMidiSource;
+  @state() private midiError: string | null = null;
+  private midiFlightAxes: FlightAxes = {...NO_FLIGHT_AXES};
+  // Music config changes from MIDI that have not been sent yet.
+  private pendingMidiConfig: Partial<MusicConfig> = {};
+  private midiConfigTimerId?: number;
+  private readonly recorder = new MixRecorder(this.sampleRate, 2);
+  // Records the output of the master bus, so both decks and the crossfader
+  // are heard in the recording.
+  private readonly mixCapture = new MixCapture(
+    this.audioContext,
+    this.masterBus.mix,
+    (pcm, when) => {
+      this.recorder.addChunk(pcm, when);
+    },
+  );
+  private recordingTimerId?: number;
+  @state() private isRecording = false;
+  @state() private recordingElapsed = 0;
+  @state() private recordingSize = 0;
+  @state() private audioStats: JitterBufferStats | null = null;
+  private audioStatsTimerId?: number;
+
+  @state() private customEmbeddingSet: EmbeddingSet | null = null;
+  @state() private isCustomEmbeddingSetActive = false;
+  @state() private isLoadingEmbeddings = false;
+  @state() private embeddingSetError: string | null = null;
+  @state() private coordinateSet: EmbeddingSet | null = null;
+  @state() private coordinatesError: string | null = null;
+  private readonly layoutCache = new LayoutCache();
+  @state() private clusters: Cluster[] = [];
+  @state() private renderedLabels = new Set<string>();
+  @state() private layoutCacheStats: LayoutCacheStats | null = null;
 
   @state()
   private spaceSettings = {
+    rngSeed: readSeed(this.urlParams),
     pointCount: 300,
     neighborRadius: 0.25,
     includeHighDimensionalNeighbors: true,
     threeDClickRadius: 1.0,
     randomizePoints: false,
+    randomPointsRadius: 25,
+    splitView: false,
     randomizeEmbeddings: false,
     nNeighbors: 10,
     minDist: 0.1,
     spread: 0.75,
+    clusterCount: 8,
+    projectionMethod: 'umap' as ProjectionMethod,
+    pcaNormalize: true,
+    pcaWhiten: false,
+    tsnePerplexity: 30,
+    tsneLearningRate: 25,
+    tsneIterations: 500,
+    precomputedNormalize: true,
   };
 
   @state()
@@ -98,14 +272,8 @@ class SpaceDJ extends LitElement {
   @state()
   private isCloudRunDeployment = false;
 
-  constructor() {
-    super();
-    this.outputNode.connect(this.audioContext.destination);
-  }
-
   protected override async firstUpdated() {
-    const urlParams = new URLSearchParams(window.location.search);
-    const forceControlsParam = urlParams.get('force-controls');
+    const forceControlsParam = this.urlParams.get('force-controls');
     const forceControls = forceControlsParam === 'true';
     this.controlsOverlayDismissed =
       !forceControls &&
@@ -119,195 +287,268 @@ class SpaceDJ extends LitElement {
       );
     }
     this.isCloudRunDeployment = window.location.host.includes('run.app');
+    if (this.urlParams.get('audio-stats') === 'true') {
+      this.audioStatsTimerId = window.setInterval(() => {
+        this.audioStats = this.getFocusedDeck().getStats();
+      }, 500);
+    }
 
-    await this.connectToSession();
+    const embeddingsUrl = this.urlParams.get('embeddings');
+    if (embeddingsUrl) {
+      void this.loadCustomEmbeddings(() =>
+        fetchEmbeddingSet(
+          embeddingsUrl,
+          this.urlParams.get('embedding-labels'),
+        ),
+      );
+    }
+    this.gamepadController.start();
+    this.layoutCache.onChanged = () => {
+      if (this.showSettings) {
+        void this.updateLayoutCacheStats();
+      }
+    };
+    if (
+      this.urlParams.get('midi') === 'virtual' ||
+      this.midiController.hasMappings()
+    ) {
+      void this.connectMidi();
+    }
+
+    await this.decks[0].connect();
     await this.toggleVocals();
   }
 
-  private async connectToSession() {
-    if (this.isConnecting) {
+  /**
+   * Starts listening to MIDI devices, and to a virtual MIDI source if asked
+   * for in the URL. The browser may ask the user for permission, so this
+   * waits until MIDI is used.
+   */
+  private async connectMidi() {
+    if (this.isMidiConnectionStarted) {
       return;
     }
-    this.isConnecting = true;
-    const ai = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY,
-      apiVersion: 'v1alpha',
-    });
-    let resolveConnectedPromise: () => void;
-    const connectedPromise = new Promise<void>((resolve) => {
-      resolveConnectedPromise = resolve;
-    }).then(() => {
-      this.isConnecting = false;
-    });
-    const handleError = () => {
-      this.connectionError = true;
-      this.stopAudio();
-      this.toastMessage.show('Connection error, please restart audio.');
-      resolveConnectedPromise();
-    };
-    this.session = await ai.live.music.connect({
-      model: LYRIA_RT_MODEL,
-      callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
-          if (e.setupComplete) {
-            console.log('connected');
-            resolveConnectedPromise();
-            this.connectionError = false;
-            if (!this.isTouchDevice) {
-              this.toastMessage.hide();
-            }
-          }
-          if (e.filteredPrompt) {
-            this.filteredPrompts = new Set([
-              ...this.filteredPrompts,
-              e.filteredPrompt.text,
-            ]);
-            this.toastMessage.show(e.filteredPrompt.filteredReason);
-          }
-          if (e.serverContent?.audioChunks !== undefined) {
-            if (
-              this.playbackState === 'paused' ||
-              this.playbackState === 'stopped'
-            ) {
-              return;
-            }
-            const audioBuffer = await decodeAudioData(
-              decode(e.serverContent?.audioChunks[0].data),
-              this.audioContext,
-              48000,
-              2,
-            );
-            const source = this.audioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(this.outputNode);
-            if (this.nextStartTime === 0) {
-              this.nextStartTime =
-                this.audioContext.currentTime + this.bufferTime;
-              this.outputNode.gain.setValueAtTime(0, this.nextStartTime);
-              this.outputNode.gain.linearRampToValueAtTime(
-                1,
-                this.nextStartTime + 0.75,
-              );
-              setTimeout(() => {
-                this.playbackState = 'playing';
-              }, this.bufferTime * 1000);
-            }
-
-            if (this.nextStartTime < this.audioContext.currentTime) {
-              console.log('under run');
-              this.playbackState = 'loading';
-              this.nextStartTime = 0;
-              return;
-            }
-            source.start(this.nextStartTime);
-            this.nextStartTime += audioBuffer.duration;
-          }
-        },
-        onerror: (e: ErrorEvent) => {
-          console.warn('Error occurred: ', e);
-          handleError();
-        },
-        onclose: (e: CloseEvent) => {
-          console.warn('Connection closed.', e);
-          handleError();
-        },
-      },
-    });
-    return connectedPromise;
+    this.isMidiConnectionStarted = true;
+    if (this.urlParams.get('midi') === 'virtual') {
+      this.virtualMidi = new VirtualMidiSource();
+      await this.midiController.addSource(this.virtualMidi);
+    }
+    try {
+      await this.midiController.addSource(
+        new WebMidiSource(() => {
+          this.requestUpdate();
+        }),
+      );
+    } catch (e) {
+      console.warn('Failed to access MIDI devices: ', e);
+      this.midiError = e.message;
+    }
+  }
+
+  private createDeck(id: DeckId): Deck {
+    return new Deck(
+      id,
+      createMusicBackend(this.urlParams),
+      this.audioContext,
+      id === 'A' ? this.crossfader.inputA : this.crossfader.inputB,
+      this.deckHost,
+    );
+  }
+
+  private getFocusedDeck(): Deck {
+    return this.decks[this.focusedDeck] ?? this.decks[0];
   }
 
   private async handlePlayPause() {
-    if (this.isConnecting) {
-      this.toastMessage.show('Please wait for API to be ready.');
+    await this.getFocusedDeck().playPause();
+  }
+
+  private async handleReset() {
+    await this.getFocusedDeck().reset();
+  }
+
+  /**
+   * Adds deck B with its own session and ship, or removes it.
+   */
+  private async toggleTwoDeckMode() {
+    if (this.isTwoDeckMode) {
+      this.decks.pop()?.dispose();
+      this.isTwoDeckMode = false;
+      this.focusedDeck = 0;
+      if (this.autopilotDeck !== 0) {
+        // The autopilot's ship leaves with the deck.
+        this.autopilotDeck = 0;
+        this.isAutopilotActive = false;
+      }
+      this.setCrossfaderPosition(0);
       return;
     }
-    if (this.playbackState === 'playing') {
-      this.pauseAudio();
-    } else if (
-      this.playbackState === 'paused' ||
-      this.playbackState === 'stopped'
+    const deck = this.createDeck('B');
+    this.decks.push(deck);
+    this.isTwoDeckMode = true;
+    this.setCrossfaderPosition(0.5);
+    if (
+      (await deck.connect()) &&
+      deck.getState().promptChannels.length > 0 &&
+      deck.getState().playbackState === 'stopped'
     ) {
-      if (this.connectionError) {
-        await this.connectToSession();
-        await this.setSessionPrompts();
-      }
-      this.loadAudio();
-    } else if (this.playbackState === 'loading') {
-      this.stopAudio();
+      await deck.playPause();
     }
   }
 
-  private pauseAudio() {
-    this.session.pause();
-    this.playbackState = 'paused';
-    this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(
-      0,
-      this.audioContext.currentTime + 0.1,
-    );
-    this.nextStartTime = 0;
-    this.outputNode = this.audioContext.createGain();
-    this.outputNode.connect(this.audioContext.destination);
-  }
-
-  private loadAudio() {
-    console.log('loading');
-    this.audioContext.resume();
-    this.session.play();
-    this.playbackState = 'loading';
-    this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-  }
-
-  private stopAudio() {
-    console.log('stopped');
-    this.session.stop();
-    this.playbackState = 'stopped';
-    this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(
-      1,
-      this.audioContext.currentTime + 0.1,
-    );
-    this.nextStartTime = 0;
+  private focusDeck(index: number) {
+    if (index < this.decks.length) {
+      this.focusedDeck = index;
+    }
   }
 
-  private async handleReset() {
-    if (this.isConnecting) {
-      this.toastMessage.show('Please wait for API to be ready.');
-      return;
-    }
-    console.log('reset');
-    if (this.connectionError) {
-      await this.connectToSession();
-      await this.setSessionPrompts();
+  private setCrossfaderPosition(position: number) {
+    this.crossfader.setPosition(position);
+    this.crossfaderPosition = this.crossfader.getPosition();
+  }
+
+  private handleCrossfaderInput(e: Event) {
+    this.setCrossfaderPosition(Number((e.target as HTMLInputElement).value));
+  }
+
+  private toggleRecording() {
+    if (this.isRecording) {
+      void this.stopRecording();
     } else {
-      this.pauseAudio();
-      this.session.resetContext();
+      this.startRecording();
     }
-    this.loadAudio();
   }
 
-  private readonly setSessionPrompts = throttle(async () => {
-    const promptsToSend = Array.from(this.prompts.values()).filter((p) => {
-      return !this.filteredPrompts.has(p.text) && p.weight !== 0;
+  private startRecording() {
+    this.recorder.start(this.audioContext.currentTime);
+    void this.mixCapture.start();
+    this.isRecording = true;
+    this.updateRecordingStatus();
+    this.recordingTimerId = window.setInterval(() => {
+      this.updateRecordingStatus();
+    }, 500);
+  }
+
+  private updateRecordingStatus() {
+    this.recordingElapsed = this.recorder.getElapsedTime(
+      this.audioContext.currentTime,
+    );
+    this.recordingSize = this.recorder.getFileSize();
+  }
+
+  private async stopRecording() {
+    window.clearInterval(this.recordingTimerId);
+    this.recordingTimerId = undefined;
+    this.isRecording = false;
+    await this.mixCapture.stop();
+    const wav = this.recorder.stop();
+    downloadFile(wav, `spacedj-${formatTimestamp(new Date())}.wav`);
+  }
+
+  private exportTimeline() {
+    const json = new Blob([this.timeline.toJson()], {
+      type: 'application/json',
     });
+    downloadFile(json, `spacedj-timeline-${formatTimestamp(new Date())}.json`);
+  }
+
+  private importTimeline(e: CustomEvent<{json: string}>) {
     try {
-      await this.session.setWeightedPrompts({
-        weightedPrompts: promptsToSend,
-      });
+      this.timeline.load(parseTimeline(e.detail.json));
     } catch (e) {
       this.toastMessage.show(e.message);
-      this.pauseAudio();
+      return;
+    }
+    this.timelineEvents = this.timeline.getEvents();
+  }
+
+  private clearTimeline() {
+    this.timeline.clear();
+    this.timelineEvents = this.timeline.getEvents();
+  }
+
+  /**
+   * Sends the changes in the timeline again, on the same schedule, to new
+   * sessions of the decks they were sent to.
+   */
+  private async replayTimeline() {
+    if (this.timelinePlayer) {
+      return;
+    }
+    const events = this.timelineEvents.filter((event) =>
+      this.decks.some((deck) => deck.id === event.deck),
+    );
+    if (events.length < this.timelineEvents.length) {
+      this.toastMessage.show('Turn on two decks to replay deck B.');
     }
-  }, 200);
+    const decks = this.decks.filter((deck) =>
+      events.some((event) => event.deck === deck.id),
+    );
+    if (decks.length === 0) {
+      return;
+    }
+    const player = new TimelinePlayer(
+      events,
+      async (event) => {
+        await this.decks
+          .find((deck) => deck.id === event.deck)
+          ?.sendReplayedUpdate(event);
+      },
+      (playedCount, done) => {
+        this.timelinePlayedCount = playedCount;
+        // Hand the decks back to the live prompts after the last event.
+        if (done && this.timelinePlayer === player) {
+          void this.stopTimelineReplay();
+        }
+      },
+    );
+    this.timelinePlayer = player;
+    this.timelinePlayedCount = 0;
+    const connected = await Promise.all(
+      decks.map((deck) => deck.startReplay()),
+    );
+    if (this.timelinePlayer !== player) {
+      // The replay was stopped while connecting.
+      return;
+    }
+    if (!connected.every(Boolean)) {
+      await this.stopTimelineReplay();
+      return;
+    }
+    player.start();
+  }
+
+  /**
+   * Stops replaying and hands the decks back to the live prompts.
+   */
+  private async stopTimelineReplay() {
+    this.timelinePlayer?.stop();
+    this.timelinePlayer = null;
+    this.timelinePlayedCount = null;
+    await Promise.all(this.decks.map((deck) => deck.stopReplay()));
+  }
 
   override connectedCallback() {
     super.connectedCallback();
     window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('dragover', this.handleDragOver);
+    window.addEventListener('drop', this.handleDrop);
   }
 
   override disconnectedCallback() {
     super.disconnectedCallback();
     window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('dragover', this.handleDragOver);
+    window.removeEventListener('drop', this.handleDrop);
+    window.clearInterval(this.recordingTimerId);
+    window.clearInterval(this.audioStatsTimerId);
+    window.clearTimeout(this.midiConfigTimerId);
+    this.midiController.dispose();
+    this.gamepadController.dispose();
+    this.timelinePlayer?.stop();
+    for (const deck of this.decks) {
+      deck.dispose();
+    }
   }
 
   private handleKeyDown = (event: KeyboardEvent) => {
@@ -324,6 +565,15 @@ class SpaceDJ extends LitElement {
       event.preventDefault();
       void this.handlePlayPause();
     }
+    if (event.code === 'Digit1' || event.code === 'Digit2') {
+      this.focusDeck(Number(event.code.slice(-1)) - 1);
+    }
+    if (this.isTwoDeckMode && event.code === 'Comma') {
+      this.setCrossfaderPosition(this.crossfaderPosition - CROSSFADER_STEP);
+    }
+    if (this.isTwoDeckMode && event.code === 'Period') {
+      this.setCrossfaderPosition(this.crossfaderPosition + CROSSFADER_STEP);
+    }
     // Auto-dismiss controls on first load.
     if (this.controlsOverlayDismissed) {
       return;
@@ -358,33 +608,43 @@ class SpaceDJ extends LitElement {
 
   private toggleSettings() {
     this.showSettings = !this.showSettings;
+    if (this.showSettings) {
+      void this.connectMidi();
+      void this.updateLayoutCacheStats();
+    }
+  }
+
+  private async updateLayoutCacheStats() {
+    this.layoutCacheStats = await this.layoutCache.getStats();
   }
 
   private async handlePromptsSelected(
-    event: CustomEvent<{promptWeights: {[key: string]: number}}>,
+    event: CustomEvent<{promptWeights: {[key: string]: number}; ship: number}>,
   ) {
+    const deck = this.decks[event.detail.ship];
+    if (!deck) {
+      return;
+    }
     const promptWeights = event.detail.promptWeights;
-    const newPrompts = new Map<string, Prompt>();
+    const newWeights = new Map<string, number>();
     for (const text in promptWeights) {
       if (Object.prototype.hasOwnProperty.call(promptWeights, text)) {
         const weight = promptWeights[text];
         if (weight < 0.01) {
           continue;
         }
-        const newPrompt: Prompt = {
-          text,
-          weight,
-        };
-        newPrompts.set(text, newPrompt);
+        newWeights.set(text, weight);
       }
     }
-    if (newPrompts.size === 0) {
+    if (newWeights.size === 0) {
       return;
     }
-    this.prompts = newPrompts;
-    await this.setSessionPrompts();
-    if (this.playbackState === 'stopped') {
-      await this.handlePlayPause();
+    await deck.setSpaceWeights(newWeights);
+    if (
+      deck.getState().playbackState === 'stopped' &&
+      !deck.isConnectionPending()
+    ) {
+      await deck.playPause();
     }
   }
 
@@ -398,12 +658,412 @@ class SpaceDJ extends LitElement {
     };
   }
 
+  private handleMasterBusChange<K extends keyof MasterBusSettings>(
+    e: CustomEvent<{property: K; value: MasterBusSettings[K]}>,
+  ) {
+    const {property, value} = e.detail;
+    const settings = {...this.masterBusSettings};
+    settings[property] = value;
+    this.masterBusSettings = settings;
+    this.masterBus.applySettings(this.masterBusSettings);
+    saveMasterBusSettings(this.masterBusSettings);
+  }
+
+  private readonly handleDragOver = (e: DragEvent) => {
+    if (e.dataTransfer?.types.includes('Files')) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    }
+  };
+
+  private readonly handleDrop = (e: DragEvent) => {
+    const files = Array.from(e.dataTransfer?.files ?? []);
+    if (files.length === 0) {
+      return;
+    }
+    e.preventDefault();
+    void this.loadCustomEmbeddings(() => loadEmbeddingFiles(files));
+  };
+
+  /**
+   * Loads a custom embedding set and explores it, keeping the current set if
+   * it fails to load.
+   */
+  private async loadCustomEmbeddings(load: () => Promise<EmbeddingSet>) {
+    this.isLoadingEmbeddings = true;
+    this.embeddingSetError = null;
+    try {
+      const embeddingSet = await load();
+      // UMAP needs more points than neighbors.
+      if (embeddingSet.embeddings.size <= this.spaceSettings.nNeighbors) {
+        throw new Error(
+          `The set needs more than ${this.spaceSettings.nNeighbors} embeddings.`,
+        );
+      }
+      this.customEmbeddingSet = embeddingSet;
+      this.isCustomEmbeddingSetActive = true;
+      this.toastMessage.show(
+        `Loaded ${embeddingSet.embeddings.size} embeddings from ${embeddingSet.name}.`,
+      );
+    } catch (e) {
+      console.warn('Failed to load embeddings: ', e);
+      this.embeddingSetError = e.message;
+      this.toastMessage.show(`Failed to load embeddings: ${e.message}`);
+    } finally {
+      this.isLoadingEmbeddings = false;
+    }
+  }
+
+  /**
+   * Loads 2D or 3D coordinates by label for the precomputed projection.
+   */
+  private async loadPrecomputedCoordinates(files: File[]) {
+    this.coordinatesError = null;
+    try {
+      const coordinates = await loadEmbeddingFiles(files);
+      if (coordinates.dimensions < 2 || coordinates.dimensions > 3) {
+        throw new Error(
+          `Coordinates need 2 or 3 dimensions, not ${coordinates.dimensions}.`,
+        );
+      }
+      this.coordinateSet = coordinates;
+      this.toastMessage.show(
+        `Loaded ${coordinates.embeddings.size} coordinates from ${coordinates.name}.`,
+      );
+    } catch (e) {
+      console.warn('Failed to load coordinates: ', e);
+      this.coordinatesError = e.message;
+      this.toastMessage.show(`Failed to load coordinates: ${e.message}`);
+    }
+  }
+
+  private getActiveEmbeddings(): Map<string, number[]> {
+    return this.isCustomEmbeddingSetActive && this.customEmbeddingSet
+      ? this.customEmbeddingSet.embeddings
+      : this.embeddingsCache;
+  }
+
+  private getActiveEmbeddingDimensions(): number {
+    return this.isCustomEmbeddingSetActive && this.customEmbeddingSet
+      ? this.customEmbeddingSet.dimensions
+      : (this.embeddingsCache.values().next().value?.length ?? 0);
+  }
+
+  private handleGamepadSettingsChange(
+    e: CustomEvent<{property: string; value: unknown}>,
+  ) {
+    const {property, value} = e.detail;
+    this.gamepadSettings = {
+      ...this.gamepadSettings,
+      [property]: value,
+    };
+    this.gamepadController.setSettings(this.gamepadSettings);
+    saveGamepadSettings(this.gamepadSettings);
+  }
+
+  private handleGamepadAction(action: GamepadAction) {
+    if (action === 'select') {
+      this.shadowRoot?.querySelector('space-component')?.selectAtCrosshair();
+    } else if (action === 'autopilot') {
+      this.toggleAutopilot();
+    } else if (action === 'playPause') {
+      void this.handlePlayPause();
+    }
+  }
+
+  private async handleMusicConfigChange(
+    e: CustomEvent<{property: keyof MusicConfig; value: unknown}>,
+  ) {
+    const {property, value} = e.detail;
+    await this.updateMusicConfig({[property]: value});
+  }
+
+  /**
+   * Applies and saves changes to the music config.
+   */
+  private async updateMusicConfig(changes: Partial<MusicConfig>) {
+    this.musicConfig = {
+      ...this.musicConfig,
+      ...changes,
+    };
+    saveMusicConfig(this.musicConfig);
+    const properties = Object.keys(changes) as Array<keyof MusicConfig>;
+    if (properties.some((property) => !isGenerationSetting(property))) {
+      for (const deck of this.decks) {
+        deck.updateMusicSettings();
+      }
+    }
+    if (!properties.some(isGenerationSetting)) {
+      return;
+    }
+    try {
+      await this.applyMusicGenerationConfig();
+    } catch (e) {
+      console.warn('Failed to set music generation config: ', e);
+      this.toastMessage.show('Failed to update the music config.');
+      return;
+    }
+    const resetProperty = properties.find(requiresResetContext);
+    if (
+      resetProperty &&
+      this.decks.some((deck) => deck.getState().playbackState !== 'stopped')
+    ) {
+      this.toastMessage.show(
+        `Press reset to apply the new ${resetProperty === 'bpm' ? 'BPM' : 'scale'}.`,
+      );
+    }
+  }
+
+  /**
+   * Returns everything a MIDI control can be mapped to.
+   */
+  private getMidiTargets(): MidiTarget[] {
+    const targets: MidiTarget[] = [
+      {id: 'thrust', label: 'Forward / back', group: 'Flight', kind: 'axis'},
+      {id: 'strafe', label: 'Left / right', group: 'Flight', kind: 'axis'},
+      {id: 'pitch', label: 'Pitch', group: 'Flight', kind: 'axis'},
+      {id: 'yaw', label: 'Turn', group: 'Flight', kind: 'axis'},
+      {id: 'autopilot', label: 'Autopilot', group: 'Flight', kind: 'trigger'},
+      {
+        id: 'playPause',
+        label: 'Play / pause',
+        group: 'Playback',
+        kind: 'trigger',
+      },
+      {id: 'reset', label: 'Reset', group: 'Playback', kind: 'trigger'},
+      {id: 'vocals', label: 'Vocals', group: 'Playback', kind: 'trigger'},
+      {id: 'crossfader', label: 'Crossfader', group: 'Decks', kind: 'fader'},
+      {id: 'nextDeck', label: 'Switch deck', group: 'Decks', kind: 'trigger'},
+    ];
+    // Prompts mapped earlier stay listed, so their mappings can be removed.
+    const promptTexts = new Set([
+      ...this.getFocusedDeck()
+        .getState()
+        .promptChannels.map((channel) => channel.text),
+      ...this.midiController
+        .getActivePreset()
+        .mappings.filter((m) => m.target.startsWith('weight:'))
+        .map((m) => m.target.slice('weight:'.length)),
+    ]);
+    for (const text of promptTexts) {
+      targets.push({
+        id: `weight:${text}`,
+        label: text,
+        group: 'Prompt Weights',
+        kind: 'fader',
+      });
+    }
+    for (const field of NUMBER_FIELDS) {
+      if (field.property === 'seed') {
+        continue;
+      }
+      targets.push({
+        id: `config:${field.property}`,
+        label: field.label,
+        group: 'Music',
+        kind: 'fader',
+      });
+    }
+    for (const field of BOOLEAN_FIELDS) {
+      targets.push({
+        id: `config:${field.property}`,
+        label: field.label,
+        group: 'Music',
+        kind: 'trigger',
+      });
+    }
+    return targets;
+  }
+
+  private handleMidiInput({
+    target,
+    value,
+    previousValue,
+    isNote,
+    invert,
+  }: MidiInput) {
+    if (target in NO_FLIGHT_AXES) {
+      let axis = isNote ? Math.sign(value) : value * 2 - 1;
+      if (Math.abs(axis) < MIDI_AXIS_DEADZONE) {
+        axis = 0;
+      }
+      this.midiFlightAxes = {
+        ...this.midiFlightAxes,
+        [target]: invert ? -axis : axis,
+      };
+      this.shadowRoot
+        ?.querySelector('space-component')
+        ?.setFlightAxes('midi', this.midiFlightAxes);
+      return;
+    }
+    const faderValue = invert ? 1 - value : value;
+    const isPressed = value >= 0.5 && previousValue < 0.5;
+    if (target === 'crossfader') {
+      if (this.isTwoDeckMode) {
+        this.setCrossfaderPosition(faderValue);
+      }
+    } else if (target.startsWith('weight:')) {
+      const text = target.slice('weight:'.length);
+      const deck = this.getFocusedDeck();
+      if (deck.getState().promptChannels.some((c) => c.text === text)) {
+        // Faders cover the range of the prompt weight sliders.
+        void deck.updatePromptMixer((mixer) => {
+          mixer.setWeight(text, faderValue * 2);
+        });
+      }
+    } else if (target.startsWith('config:')) {
+      this.handleMidiConfigInput(
+        target.slice('config:'.length) as keyof MusicConfig,
+        faderValue,
+        isPressed,
+      );
+    } else if (isPressed) {
+      this.handleMidiTrigger(target);
+    }
+  }
+
+  private handleMidiTrigger(target: string) {
+    if (target === 'autopilot') {
+      this.toggleAutopilot();
+    } else if (target === 'playPause') {
+      void this.handlePlayPause();
+    } else if (target === 'reset') {
+      void this.handleReset();
+    } else if (target === 'vocals') {
+      void this.toggleVocals();
+    } else if (target === 'nextDeck') {
+      this.focusDeck((this.focusedDeck + 1) % this.decks.length);
+    }
+  }
+
+  private handleMidiConfigInput(
+    property: keyof MusicConfig,
+    value: number,
+    isPressed: boolean,
+  ) {
+    const field = NUMBER_FIELDS.find((f) => f.property === property);
+    const toggle = BOOLEAN_FIELDS.find((f) => f.property === property);
+    if (field) {
+      const steps = Math.round((value * (field.max - field.min)) / field.step);
+      this.pendingMidiConfig[field.property] = Number(
+        (field.min + steps * field.step).toFixed(2),
+      );
+    } else if (toggle && isPressed) {
+      this.pendingMidiConfig[toggle.property] =
+        !this.musicConfig[toggle.property];
+    } else {
+      return;
+    }
+    if (this.midiConfigTimerId === undefined) {
+      this.midiConfigTimerId = window.setTimeout(() => {
+        this.midiConfigTimerId = undefined;
+        const changes = this.pendingMidiConfig;
+        this.pendingMidiConfig = {};
+        void this.updateMusicConfig(changes);
+      }, MIDI_CONFIG_INTERVAL);
+    }
+  }
+
+  private renderMidiSettings() {
+    const inputNames = this.midiController.getInputNames();
+    const status =
+      inputNames.length > 0
+        ? `Connected: ${inputNames.join(', ')}`
+        : (this.midiError ?? 'No MIDI device connected.');
+    return html`<midi-settings
+      .targets=${this.getMidiTargets()}
+      .presets=${this.midiController.getPresets()}
+      .activePresetName=${this.midiController.getActivePreset().name}
+      .learningTarget=${this.midiController.getLearningTarget()}
+      .status=${status}
+      @midi-learn=${(e: CustomEvent<{target: string}>) => {
+        this.midiController.toggleLearning(e.detail.target);
+      }}
+      @midi-clear=${(e: CustomEvent<{target: string}>) => {
+        this.midiController.clearMapping(e.detail.target);
+      }}
+      @midi-invert=${(e: CustomEvent<{target: string}>) => {
+        this.midiController.toggleInverted(e.detail.target);
+      }}
+      @midi-preset-selected=${(e: CustomEvent<{name: string}>) => {
+        this.midiController.selectPreset(e.detail.name);
+      }}
+      @midi-preset-created=${(e: CustomEvent<{name: string}>) => {
+        this.midiController.createPreset(e.detail.name);
+      }}
+      @midi-preset-deleted=${() => {
+        this.midiController.deleteActivePreset();
+      }}></midi-settings>`;
+  }
+
+  private handlePromptWeightInput(text: string, e: Event) {
+    const weight = Number((e.target as HTMLInputElement).value);
+    void this.getFocusedDeck().updatePromptMixer((mixer) => {
+      mixer.setWeight(text, weight);
+    });
+  }
+
+  private renderPromptChannel(channel: PromptChannel) {
+    return html`
+      <div
+        class=${classMap({
+          'prompt-item': true,
+          'inaudible': !channel.audible,
+        })}>
+        <span class="prompt-text" title=${channel.text}>${channel.text}</span>
+        <md-slider
+          class="prompt-slider"
+          min="0"
+          max="2"
+          step="0.01"
+          .value=${channel.weight}
+          @input=${(e: Event) => {
+            this.handlePromptWeightInput(channel.text, e);
+          }}></md-slider>
+        <span
+          class=${classMap({
+            'prompt-weight': true,
+            'manual': channel.isManualWeight,
+          })}
+          >${channel.weight.toFixed(2)}</span
+        >
+        <button
+          class=${classMap({'mixer-button': true, 'active': channel.pinned})}
+          title=${channel.pinned ? 'Unpin' : 'Pin: keep in the mix'}
+          @click=${() =>
+            this.getFocusedDeck().updatePromptMixer((mixer) => {
+              mixer.togglePinned(channel.text);
+            })}>
+          P
+        </button>
+        <button
+          class=${classMap({'mixer-button': true, 'active': channel.soloed})}
+          title="Solo"
+          @click=${() =>
+            this.getFocusedDeck().updatePromptMixer((mixer) => {
+              mixer.toggleSoloed(channel.text);
+            })}>
+          S
+        </button>
+        <button
+          class=${classMap({'mixer-button': true, 'active': channel.muted})}
+          title="Mute"
+          @click=${() =>
+            this.getFocusedDeck().updatePromptMixer((mixer) => {
+              mixer.toggleMuted(channel.text);
+            })}>
+          M
+        </button>
+      </div>
+    `;
+  }
+
   private renderPromptList() {
-    if (this.prompts.size === 0) {
+    const {promptChannels, pendingPromptsCountdown, playbackState} =
+      this.getFocusedDeck().getState();
+    if (promptChannels.length === 0) {
       return html``;
     }
-    const prompts = Array.from(this.prompts.values());
-    prompts.sort((a, b) => b.weight - a.weight);
 
     return html`
       <div
@@ -411,14 +1071,31 @@ class SpaceDJ extends LitElement {
           ? 'collapsed'
           : ''}">
         <div class="prompt-overlay-header">
-          <h2>PROMPTS</h2>
+          <h2>
+            PROMPTS${this.isTwoDeckMode
+              ? ` · DECK ${this.getFocusedDeck().id}`
+              : ''}
+          </h2>
+          ${when(
+            pendingPromptsCountdown !== null,
+            () => html`
+              <span
+                class="prompt-countdown"
+                title="Time until the prompt change is sent">
+                ${TRANSITION_QUANTIZATION_LABELS[
+                  this.musicConfig.transitionQuantization
+                ].toLowerCase()}
+                in ${pendingPromptsCountdown!.toFixed(1)}s
+              </span>
+            `,
+          )}
           <div
             class=${classMap({
               'loading-icon-container': true,
-              'hidden': this.playbackState !== 'loading',
+              'hidden': playbackState !== 'loading',
             })}>
             ${when(
-              this.playbackState === 'loading',
+              playbackState === 'loading',
               () => html`<loading-icon></loading-icon>`,
             )}
           </div>
@@ -429,15 +1106,8 @@ class SpaceDJ extends LitElement {
         ${when(
           !this.promptsOverlayCollapsed,
           () => html`
-            ${prompts.map(
-              (prompt) => html`
-                <div class="prompt-item">
-                  <span class="prompt-text" title=${prompt.text ?? ''}
-                    >${prompt.text}</span
-                  >
-                  <span class="prompt-weight">${prompt.weight.toFixed(2)}</span>
-                </div>
-              `,
+            ${promptChannels.map((channel) =>
+              this.renderPromptChannel(channel),
             )}
           `,
         )}
@@ -445,6 +1115,22 @@ class SpaceDJ extends LitElement {
     `;
   }
 
+  private renderAudioStats() {
+    if (!this.audioStats) {
+      return html``;
+    }
+    const {bufferDepth, targetLeadTime, concealedUnderRuns, rebuffers} =
+      this.audioStats;
+    return html`
+      <div class="audio-stats">
+        <span>buffer ${bufferDepth.toFixed(2)}s</span>
+        <span>target ${targetLeadTime.toFixed(2)}s</span>
+        <span>concealed ${concealedUnderRuns}</span>
+        <span>rebuffers ${rebuffers}</span>
+      </div>
+    `;
+  }
+
   private renderShowControlsButton() {
     const isHidden = this.showControlsOverlay || !this.controlsOverlayDismissed;
     return when(
@@ -525,11 +1211,61 @@ class SpaceDJ extends LitElement {
                 mix.</span
               >
             </div>
+            <div class="info-item">
+              <span class="info-item-title">Prompts</span>
+              <span
+                >Set a prompt's weight by hand, <b>P</b>in it to keep it in the
+                mix wherever you fly, or <b>S</b>olo and <b>M</b>ute it.</span
+              >
+            </div>
+            <div class="info-item">
+              <span class="info-item-title">Decks</span>
+              <span
+                >Play two regions of the space at once, each with its own ship
+                and prompts. Press <code>1</code> or <code>2</code> to control a
+                deck, and <code>,</code> and <code>.</code> or the slider to
+                crossfade between them.</span
+              >
+            </div>
+            <div class="info-item">
+              <span class="info-item-title">Timeline</span>
+              <span
+                >Lists every prompt and config change sent to the model. Export
+                it as JSON, import it again and replay it on a new
+                session.</span
+              >
+            </div>
+            <div class="info-item">
+              <span class="info-item-title">Gamepad</span>
+              <span
+                >Fly with the left stick, look around with the right stick and
+                hold the triggers to speed up or slow down. Press <b>A</b> to
+                anchor the prompts in the middle of the view, <b>Y</b> for the
+                autopilot and <b>Start</b> to play or pause.</span
+              >
+            </div>
+            <div class="info-item">
+              <span class="info-item-title">MIDI</span>
+              <span
+                >Map knobs, faders and pads of a MIDI controller to flight,
+                playback, prompt weights and music settings in the settings, and
+                save mappings as presets.</span
+              >
+            </div>
+            <div class="info-item">
+              <span class="info-item-title">Embeddings</span>
+              <span
+                >Explore your own prompts: load or drop a JSON map of labels to
+                vectors, a CSV file or an NPY file with its labels, then switch
+                between them and the built-in genres in the settings.</span
+              >
+            </div>
             <div class="info-item">
               <span class="info-item-title">Settings</span>
               <span
-                >Adjust UMAP visualization parameters and re-render the
-                space.</span
+                >Adjust UMAP visualization parameters and re-render the space,
+                steer the music with BPM, scale, density and more, and shape the
+                output with EQ, compression, limiting and volume.</span
               >
             </div>
             <div class="info-item">
@@ -547,6 +1283,13 @@ class SpaceDJ extends LitElement {
               <span class="info-item-title">Reset</span>
               <span>Restart the audio stream with the current prompts.</span>
             </div>
+            <div class="info-item">
+              <span class="info-item-title">Record</span>
+              <span
+                >Record the mix, including pauses, and save it as a WAV file
+                when you stop.</span
+              >
+            </div>
           `,
         )}
       </div>
@@ -591,10 +1334,9 @@ class SpaceDJ extends LitElement {
     `;
   }
 
-  private handleAutopilotDisengaged() {
-    const autopilotButton = this.shadowRoot?.querySelector('autopilot-button');
-    if (autopilotButton && autopilotButton.active) {
-      autopilotButton.active = false;
+  private handleAutopilotDisengaged(event: CustomEvent<{ship: number}>) {
+    if (event.detail.ship === this.autopilotDeck) {
+      this.isAutopilotActive = false;
     }
   }
 
@@ -603,7 +1345,57 @@ class SpaceDJ extends LitElement {
     if (!spaceComponent) {
       return;
     }
-    spaceComponent.renderSpace();
+    void spaceComponent.renderSpace();
+  }
+
+  private handleClusterToggled(
+    e: CustomEvent<{index: number; visible: boolean}>,
+  ) {
+    this.shadowRoot
+      ?.querySelector('space-component')
+      ?.setClusterVisible(e.detail.index, e.detail.visible);
+  }
+
+  /**
+   * Flies to a genre, offering to swap it into the rendered points first if
+   * it is not rendered.
+   */
+  private flyToGenre(e: CustomEvent<{label: string}>) {
+    const spaceComponent = this.shadowRoot?.querySelector('space-component');
+    if (!spaceComponent) {
+      return;
+    }
+    const {label} = e.detail;
+    if (this.renderedLabels.has(label)) {
+      spaceComponent.flyToPoint(label);
+      return;
+    }
+    this.toastMessage.show(
+      `${label} is not in the space. Swap it in for a genre no deck is on?`,
+      {
+        label: 'Swap in',
+        run: () => {
+          void this.swapInGenre(label);
+        },
+      },
+    );
+  }
+
+  // Swaps an unrendered genre into the space and flies to it.
+  private async swapInGenre(label: string) {
+    const spaceComponent = this.shadowRoot?.querySelector('space-component');
+    if (!spaceComponent) {
+      return;
+    }
+    this.toastMessage.show(`Adding ${label} to the space…`);
+    if (!(await spaceComponent.swapInPoint(label))) {
+      this.toastMessage.show(
+        `${label} cannot be swapped in. Deselect a genre, or try another layout.`,
+      );
+      return;
+    }
+    this.toastMessage.hide();
+    spaceComponent.flyToPoint(label);
   }
 
   private toggleAutopilot() {
@@ -611,23 +1403,37 @@ class SpaceDJ extends LitElement {
     if (!spaceComponent) {
       return;
     }
-    const autopilotEnabled = spaceComponent.toggleAutopilot();
-    const autopilotButton = this.shadowRoot?.querySelector('autopilot-button');
-    if (!autopilotButton) {
+    this.isAutopilotActive =
+      spaceComponent.toggleAutopilot(this.autopilotDeck) ?? false;
+  }
+
+  /**
+   * Hands the autopilot to the ship of another deck, keeping it engaged if it
+   * was.
+   */
+  private assignAutopilot(deck: number) {
+    if (deck === this.autopilotDeck) {
       return;
     }
-    autopilotButton.active = autopilotEnabled;
+    const wasActive = this.isAutopilotActive;
+    if (wasActive) {
+      this.toggleAutopilot();
+    }
+    this.autopilotDeck = deck;
+    if (wasActive) {
+      this.toggleAutopilot();
+    }
   }
 
   private async toggleVocals() {
     this.areVocalsEnabled = !this.areVocalsEnabled;
-    await this.session.setMusicGenerationConfig({
-      musicGenerationConfig: {
-        musicGenerationMode: this.areVocalsEnabled
-          ? MusicGenerationMode.VOCALIZATION
-          : MusicGenerationMode.QUALITY,
-      },
-    });
+    await this.applyMusicGenerationConfig();
+  }
+
+  private async applyMusicGenerationConfig() {
+    await Promise.all(
+      this.decks.map((deck) => deck.applyMusicGenerationConfig()),
+    );
   }
 
   private renderSettings() {
@@ -635,24 +1441,140 @@ class SpaceDJ extends LitElement {
       this.showSettings,
       () =>
         html`<div class="container">
+          <embedding-set-picker
+            .customSet=${this.customEmbeddingSet}
+            .isCustomSetActive=${this.isCustomEmbeddingSetActive}
+            .isLoading=${this.isLoadingEmbeddings}
+            .error=${this.embeddingSetError}
+            @embedding-set-selected=${(e: CustomEvent<{custom: boolean}>) => {
+              this.isCustomEmbeddingSetActive = e.detail.custom;
+            }}
+            @embedding-files-selected=${(e: CustomEvent<{files: File[]}>) => {
+              void this.loadCustomEmbeddings(() =>
+                loadEmbeddingFiles(e.detail.files),
+              );
+            }}></embedding-set-picker>
           <space-settings
             .settings=${this.spaceSettings}
+            .coordinates=${this.coordinateSet}
+            .coordinatesError=${this.coordinatesError}
+            .layoutCacheStats=${this.layoutCacheStats}
             @settings-changed=${this.handleSettingsChange}
+            @clear-layout-cache=${() => {
+              void this.layoutCache.clear();
+            }}
+            @coordinates-files-selected=${(e: CustomEvent<{files: File[]}>) => {
+              void this.loadPrecomputedCoordinates(e.detail.files);
+            }}
             @render-space-clicked=${this.renderSpace}></space-settings>
+          <master-bus-settings
+            .settings=${this.masterBusSettings}
+            @master-bus-changed=${this.handleMasterBusChange}></master-bus-settings>
+          <music-config-settings
+            .config=${this.musicConfig}
+            @music-config-changed=${this.handleMusicConfigChange}></music-config-settings>
+          <gamepad-settings
+            .settings=${this.gamepadSettings}
+            .gamepadName=${this.gamepadController.getGamepadName()}
+            @gamepad-settings-changed=${this.handleGamepadSettingsChange}></gamepad-settings>
+          ${this.renderMidiSettings()}
         </div>`,
     );
   }
 
+  private renderConnectionIndicator(deck: Deck) {
+    const {connectionState, reconnectAttempt} = deck.getState();
+    const labels: {[key in ConnectionState]: string} = {
+      disconnected: 'Disconnected',
+      connecting: 'Connecting',
+      connected: 'Connected',
+      reconnecting: `Reconnecting ${reconnectAttempt}/${deck.getMaxReconnectAttempts()}`,
+      failed: 'Offline',
+    };
+    const prefix = this.isTwoDeckMode ? `${deck.id}: ` : '';
+    return html`
+      <div class="connection-indicator ${connectionState}">
+        <span class="connection-dot"></span>
+        <span>${prefix}${labels[connectionState]}</span>
+      </div>
+    `;
+  }
+
+  private renderDeck(deck: Deck, index: number) {
+    return html`
+      <div class="deck">
+        <button
+          class=${classMap({
+            'deck-button': true,
+            'active': index === this.focusedDeck,
+          })}
+          title="Control deck ${deck.id} (${index + 1})"
+          @click=${() => {
+            this.focusDeck(index);
+          }}>
+          Deck ${deck.id}
+        </button>
+        <span class="deck-state">${deck.getState().playbackState}</span>
+        <button
+          class=${classMap({
+            'mixer-button': true,
+            'active': index === this.autopilotDeck,
+          })}
+          title="Fly deck ${deck.id} with the autopilot"
+          @click=${() => {
+            this.assignAutopilot(index);
+          }}>
+          AP
+        </button>
+      </div>
+    `;
+  }
+
+  private renderDeckOverlay() {
+    if (!this.isTwoDeckMode) {
+      return html``;
+    }
+    return html`
+      <div class="deck-overlay">
+        ${this.renderDeck(this.decks[0], 0)}
+        <md-slider
+          class="crossfader"
+          min="0"
+          max="1"
+          step="0.01"
+          .value=${this.crossfaderPosition}
+          @input=${this.handleCrossfaderInput}></md-slider>
+        ${this.renderDeck(this.decks[1], 1)}
+      </div>
+    `;
+  }
+
   private renderHeader() {
+    const {playbackState} = this.getFocusedDeck().getState();
     return html`
       <div class="header">
         <div class="header-row">
-          <h1>Space DJ</h1>
+          <div class="title">
+            <h1>Space DJ</h1>
+            ${this.decks.map((deck) => this.renderConnectionIndicator(deck))}
+          </div>
           <div class="controls">
+            <genre-search
+              .labels=${Array.from(this.getActiveEmbeddings().keys())}
+              .renderedLabels=${this.renderedLabels}
+              @genre-picked=${this.flyToGenre}></genre-search>
             <tooltip-message message="Autopilot" position="bottom">
               <autopilot-button
+                .active=${this.isAutopilotActive}
                 @click=${this.toggleAutopilot}></autopilot-button>
             </tooltip-message>
+            <tooltip-message
+              message="${this.isTwoDeckMode ? 'One deck' : 'Two decks'}"
+              position="bottom">
+              <decks-button
+                .active=${this.isTwoDeckMode}
+                @click=${this.toggleTwoDeckMode}></decks-button>
+            </tooltip-message>
             <tooltip-message message="Settings" position="bottom">
               <settings-button @click=${this.toggleSettings}></settings-button>
             </tooltip-message>
@@ -666,15 +1588,33 @@ class SpaceDJ extends LitElement {
                 @click=${this.toggleVocals}></vocals-button>
             </tooltip-message>
             <tooltip-message
-              message="${this.playbackState === 'playing' ||
-              this.playbackState === 'loading'
+              message="${playbackState === 'playing' ||
+              playbackState === 'loading'
                 ? 'Pause'
                 : 'Play'}"
               position="bottom">
               <play-pause-button
-                .playbackState=${this.playbackState}
+                .playbackState=${playbackState}
                 @click=${this.handlePlayPause}></play-pause-button>
             </tooltip-message>
+            ${when(
+              this.isRecording,
+              () => html`
+                <div class="recording-status">
+                  <span>${formatDuration(this.recordingElapsed)}</span>
+                  <span>${formatBytes(this.recordingSize)}</span>
+                </div>
+              `,
+            )}
+            <tooltip-message
+              message="${this.isRecording
+                ? 'Stop recording and save'
+                : 'Record'}"
+              position="bottom">
+              <record-button
+                .recording=${this.isRecording}
+                @click=${this.toggleRecording}></record-button>
+            </tooltip-message>
             <tooltip-message message="Reset" position="bottom">
               <reset-button @click=${this.handleReset}></reset-button>
             </tooltip-message>
@@ -689,35 +1629,151 @@ class SpaceDJ extends LitElement {
     return html`
       ${this.renderHeader()}
       <space-component
-        .embeddingsCache=${this.embeddingsCache}
+        .embeddingsCache=${this.getActiveEmbeddings()}
+        .layoutCache=${this.layoutCache}
+        .embeddingDimensions=${this.getActiveEmbeddingDimensions()}
         @prompts-selected=${this.handlePromptsSelected}
         @autopilot-disengaged=${this.handleAutopilotDisengaged}
+        @points-rendered=${(e: CustomEvent<{labels: string[]}>) => {
+          this.renderedLabels = new Set(e.detail.labels);
+        }}
+        @clusters-changed=${(e: CustomEvent<{clusters: Cluster[]}>) => {
+          this.clusters = e.detail.clusters;
+        }}
+        @layout-failed=${(e: CustomEvent<{message: string}>) => {
+          this.toastMessage.show(
+            `Failed to compute the layout: ${e.detail.message}`,
+          );
+        }}
+        .shipCount=${this.decks.length}
+        .focusedShip=${this.focusedDeck}
+        .rngSeed=${this.spaceSettings.rngSeed}
         .pointCount=${this.spaceSettings.pointCount}
         .neighborRadius=${this.spaceSettings.neighborRadius}
         .includeHighDimensionalNeighbors=${this.spaceSettings
           .includeHighDimensionalNeighbors}
         .threeDClickRadius=${this.spaceSettings.threeDClickRadius}
         .randomizePoints=${this.spaceSettings.randomizePoints}
+        .randomPointsRadius=${this.spaceSettings.randomPointsRadius}
+        .splitView=${this.spaceSettings.splitView}
         .randomizeEmbeddings=${this.spaceSettings.randomizeEmbeddings}
+        .projectionMethod=${this.spaceSettings.projectionMethod}
+        .pcaNormalize=${this.spaceSettings.pcaNormalize}
+        .pcaWhiten=${this.spaceSettings.pcaWhiten}
+        .tsnePerplexity=${this.spaceSettings.tsnePerplexity}
+        .tsneLearningRate=${this.spaceSettings.tsneLearningRate}
+        .tsneIterations=${this.spaceSettings.tsneIterations}
+        .precomputedCoordinates=${this.coordinateSet?.embeddings ?? null}
+        .precomputedNormalize=${this.spaceSettings.precomputedNormalize}
+        .clusterCount=${this.spaceSettings.clusterCount}
         .nNeighbors=${this.spaceSettings.nNeighbors}
         .minDist=${this.spaceSettings.minDist}
         .spread=${this.spaceSettings.spread}></space-component>
-      ${this.renderPromptList()} ${this.renderControlsOverlay()}
-      ${this.renderShowControlsButton()}
+      ${this.renderPromptList()} ${this.renderDeckOverlay()}
+      <timeline-panel
+        .events=${this.timelineEvents}
+        .playedCount=${this.timelinePlayedCount}
+        .showDecks=${this.isTwoDeckMode}
+        @timeline-replay=${this.replayTimeline}
+        @timeline-stop=${this.stopTimelineReplay}
+        @timeline-imported=${this.importTimeline}
+        @timeline-export=${this.exportTimeline}
+        @timeline-clear=${this.clearTimeline}></timeline-panel>
+      ${when(
+        this.clusters.length > 0,
+        () =>
+          html`<cluster-legend
+            .clusters=${this.clusters}
+            @cluster-toggled=${this.handleClusterToggled}></cluster-legend>`,
+      )}
+      ${this.renderControlsOverlay()} ${this.renderShowControlsButton()}
+      ${this.renderAudioStats()}
       <toast-message></toast-message>
     `;
   }
 }
 
-function main(container: HTMLElement) {
-  const embeddingsCache = new Map<string, number[]>(Object.entries(EMBEDDINGS));
+function createMusicBackend(urlParams: URLSearchParams): MusicBackend {
+  if (urlParams.get('backend') !== 'synthetic') {
+    return new LyriaBackend(process.env.GEMINI_API_KEY);
+  }
+  const filteredWords = urlParams.get('synthetic-filter');
+  const dropAfter = Number(urlParams.get('synthetic-drop-after'));
+  return new SyntheticBackend({
+    filteredWords: filteredWords ? filteredWords.split(',') : undefined,
+    dropAfterSeconds: dropAfter > 0 ? dropAfter : undefined,
+  });
+}
+
+/**
+ * Reads the seed of the space from the URL, defaulting to midnight today, so
+ * the point cloud is consistent throughout the day and updates daily.
+ */
+function readSeed(urlParams: URLSearchParams): number {
+  const seedParam = urlParams.get('rng-seed');
+  const seed = seedParam ? Number(seedParam) : NaN;
+  return isNaN(seed) ? new Date().setHours(0, 0, 0, 0) : seed;
+}
+
+function formatTimestamp(date: Date) {
+  return date
+    .toISOString()
+    .replace(/[:.]/g, '-')
+    .replace('T', '_')
+    .slice(0, 19);
+}
+
+function downloadFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+  }, 0);
+}
+
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = Math.floor(seconds % 60);
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Loads the packed built-in embeddings, or their source where the app runs
+ * without the build step that packs them.
+ */
+async function loadBuiltInEmbeddings(): Promise<Map<string, number[]>> {
+  try {
+    return await fetchPackedEmbeddings();
+  } catch (e) {
+    console.warn('Failed to load packed embeddings, using the source: ', e);
+    const {EMBEDDINGS} = await import('./embeddings');
+    return new Map<string, number[]>(Object.entries(EMBEDDINGS));
+  }
+}
+
+async function main(container: HTMLElement) {
+  render(html`<div class="app-status">Loading embeddings…</div>`, container);
+  let embeddingsCache: Map<string, number[]>;
+  try {
+    embeddingsCache = await loadBuiltInEmbeddings();
+  } catch (e) {
+    console.error('Failed to load embeddings: ', e);
+    render(
+      html`<div class="app-status">Failed to load the embeddings.</div>`,
+      container,
+    );
+    return;
+  }
   render(
     html`<space-dj .embeddingsCache=${embeddingsCache}></space-dj>`,
     container,
   );
 }
 
-main(document.body);
+void main(document.body);
 
 declare global {
   interface HTMLElementTagNameMap {
@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Adaptive scheduling of streamed audio chunks.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Tuning options for the jitter buffer. All times are in seconds.
+ */
+export interface JitterBufferOptions {
+  /** Lead time used when playback starts, before any arrivals are measured. */
+  initialLeadTime: number;
+  /** Lower bound for the adaptive lead time. */
+  minLeadTime: number;
+  /** Upper bound for the adaptive lead time. */
+  maxLeadTime: number;
+  /** Lead time kept on top of the measured arrival jitter. */
+  safetyMargin: number;
+  /** Latest a chunk can arrive and still be concealed instead of rebuffering. */
+  maxConcealLateness: number;
+  /** Number of concealed under-runs in a row that force a full rebuffer. */
+  maxConsecutiveUnderRuns: number;
+  /** Length of the crossfade used to hide late arrivals and trims. */
+  crossfadeDuration: number;
+  /** Most audio that may be skipped per chunk to shrink the buffer. */
+  maxTrimPerChunk: number;
+  /** Number of recent arrivals used to adapt the lead time. */
+  historySize: number;
+}
+
+const DEFAULT_OPTIONS: JitterBufferOptions = {
+  initialLeadTime: 2,
+  minLeadTime: 0.5,
+  maxLeadTime: 5,
+  safetyMargin: 0.25,
+  maxConcealLateness: 1,
+  maxConsecutiveUnderRuns: 3,
+  crossfadeDuration: 0.03,
+  maxTrimPerChunk: 0.05,
+  historySize: 16,
+};
+
+// Delay before a late chunk starts, so it is never scheduled in the past.
+const CONCEAL_START_DELAY = 0.02;
+// Fraction of the excess lead time removed per arrival.
+const SHRINK_RATE = 0.1;
+
+/**
+ * Where and how to play a chunk.
+ */
+export interface ScheduledChunk {
+  /** The audio context time at which the chunk starts playing. */
+  startTime: number;
+  /**
+   * Length of the crossfade with the previous chunk, or 0 to play it back to
+   * back.
+   */
+  crossfadeDuration: number;
+  /** Whether the buffer was refilled from empty before this chunk. */
+  rebuffered: boolean;
+}
+
+/**
+ * Counters and levels for tuning the jitter buffer.
+ */
+export interface JitterBufferStats {
+  /** Seconds of audio scheduled ahead of the playback position. */
+  bufferDepth: number;
+  /** The lead time the buffer is currently aiming for. */
+  targetLeadTime: number;
+  /** Late arrivals hidden with a crossfade. */
+  concealedUnderRuns: number;
+  /** Late arrivals that forced a full rebuffer. */
+  rebuffers: number;
+}
+
+/**
+ * Schedules streamed chunks on the audio context clock, adapting the lead time
+ * to how early or late chunks actually arrive.
+ *
+ * The jitter is the spread of recent arrival times around a steady real time
+ * stream. The lead time grows at once to cover it plus a safety margin, and
+ * slowly shrinks when arrivals are steady. The buffer follows a shrinking lead
+ * time by overlapping consecutive chunks with a short crossfade.
+ */
+export class JitterBuffer {
+  private readonly options: JitterBufferOptions;
+  private targetLeadTime: number;
+  private arrivalOffsets: number[] = [];
+  private receivedDuration = 0;
+  private consecutiveUnderRuns = 0;
+  private concealedUnderRuns = 0;
+  private rebuffers = 0;
+  nextStartTime = 0;
+
+  constructor(options: Partial<JitterBufferOptions> = {}) {
+    this.options = {...DEFAULT_OPTIONS, ...options};
+    this.targetLeadTime = this.options.initialLeadTime;
+  }
+
+  /**
+   * Schedules a chunk that has just arrived.
+   *
+   * @param duration The duration of the chunk.
+   * @param currentTime The current time of the audio context.
+   * @return Where and how to play the chunk.
+   */
+  schedule(duration: number, currentTime: number): ScheduledChunk {
+    if (this.nextStartTime === 0) {
+      this.arrivalOffsets = [];
+      this.receivedDuration = 0;
+      this.recordArrival(currentTime, duration);
+      return this.startBuffering(currentTime, duration, false);
+    }
+
+    this.recordArrival(currentTime, duration);
+    const slack = this.nextStartTime - currentTime;
+
+    if (slack < 0) {
+      const lateness = -slack;
+      this.consecutiveUnderRuns++;
+      if (
+        lateness > this.options.maxConcealLateness ||
+        this.consecutiveUnderRuns >= this.options.maxConsecutiveUnderRuns
+      ) {
+        console.log('under run, rebuffering');
+        this.rebuffers++;
+        return this.startBuffering(currentTime, duration, true);
+      }
+      console.log('under run, concealed');
+      this.concealedUnderRuns++;
+      const startTime = currentTime + CONCEAL_START_DELAY;
+      this.nextStartTime = startTime + duration;
+      return {
+        startTime,
+        crossfadeDuration: this.options.crossfadeDuration,
+        rebuffered: false,
+      };
+    }
+    this.consecutiveUnderRuns = 0;
+
+    // Shrink the buffer towards the target by overlapping this chunk with the
+    // tail of the previous one.
+    const excess = slack - this.targetLeadTime;
+    const trim = Math.min(
+      Math.max(0, excess),
+      this.options.maxTrimPerChunk,
+      duration / 2,
+    );
+    if (trim > 0) {
+      const startTime = this.nextStartTime - trim;
+      this.nextStartTime = startTime + duration;
+      return {
+        startTime,
+        crossfadeDuration: Math.max(trim, this.options.crossfadeDuration),
+        rebuffered: false,
+      };
+    }
+
+    const startTime = this.nextStartTime;
+    this.nextStartTime += duration;
+    return {startTime, crossfadeDuration: 0, rebuffered: false};
+  }
+
+  /**
+   * Forgets the scheduled position, e.g. when playback is paused or stopped.
+   * The adapted lead time and counters are kept.
+   */
+  reset() {
+    this.nextStartTime = 0;
+    this.consecutiveUnderRuns = 0;
+  }
+
+  /**
+   * Returns the current counters and levels.
+   *
+   * @param currentTime The current time of the audio context.
+   */
+  getStats(currentTime: number): JitterBufferStats {
+    return {
+      bufferDepth:
+        this.nextStartTime === 0
+          ? 0
+          : Math.max(0, this.nextStartTime - currentTime),
+      targetLeadTime: this.targetLeadTime,
+      concealedUnderRuns: this.concealedUnderRuns,
+      rebuffers: this.rebuffers,
+    };
+  }
+
+  private startBuffering(
+    currentTime: number,
+    duration: number,
+    rebuffered: boolean,
+  ): ScheduledChunk {
+    this.consecutiveUnderRuns = 0;
+    const startTime = currentTime + this.targetLeadTime;
+    this.nextStartTime = startTime + duration;
+    return {startTime, crossfadeDuration: 0, rebuffered};
+  }
+
+  private recordArrival(currentTime: number, duration: number) {
+    // A stream arriving exactly in real time has a constant offset between
+    // arrival time and audio received so far; its spread is the jitter.
+    this.arrivalOffsets.push(currentTime - this.receivedDuration);
+    this.receivedDuration += duration;
+    if (this.arrivalOffsets.length > this.options.historySize) {
+      this.arrivalOffsets.shift();
+    }
+    const jitter =
+      Math.max(...this.arrivalOffsets) - Math.min(...this.arrivalOffsets);
+    const requiredLeadTime = jitter + this.options.safetyMargin;
+    if (requiredLeadTime > this.targetLeadTime) {
+      this.targetLeadTime = requiredLeadTime;
+    } else if (this.arrivalOffsets.length === this.options.historySize) {
+      this.targetLeadTime -=
+        (this.targetLeadTime - requiredLeadTime) * SHRINK_RATE;
+    }
+    this.targetLeadTime = Math.min(
+      this.options.maxLeadTime,
+      Math.max(this.options.minLeadTime, this.targetLeadTime),
+    );
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Persists computed layouts in IndexedDB, so reloading with the
+ * same seed and settings skips the projection.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {type ProjectionMethod} from './projection';
+
+const DB_NAME = 'space-dj';
+const DB_VERSION = 1;
+const STORE_NAME = 'layouts';
+const DIMENSIONS = 3;
+// Changes when the same key lays the points out differently, so layouts
+// cached before miss.
+const KEY_VERSION = 2;
+
+// Hashes of embedding sets, which are hashed once per session.
+const embeddingHashes = new WeakMap<Map<string, number[]>, Promise<string>>();
+
+/**
+ * Everything a layout depends on.
+ */
+export interface LayoutKey {
+  embeddings: Map<string, number[]>;
+  rngSeed: number;
+  pointCount: number;
+  /** The labels of the points laid out. */
+  labels: string[];
+  method: ProjectionMethod;
+  /** The parameters of the projection method. */
+  parameters: object;
+  randomizeEmbeddings: boolean;
+}
+
+/**
+ * A layout of the selected embeddings.
+ */
+export interface CachedLayout {
+  labels: string[];
+  positions: number[][];
+  /** The vectors the layout was computed from, if they were randomized. */
+  vectors: number[][] | null;
+}
+
+/**
+ * The number of cached layouts and their approximate size.
+ */
+export interface LayoutCacheStats {
+  count: number;
+  bytes: number;
+}
+
+interface LayoutRecord {
+  key: string;
+  labels: string[];
+  positions: Float32Array;
+  vectors: Float32Array | null;
+  bytes: number;
+}
+
+/**
+ * Stores layouts by a hash of their key. Failures to read or write the cache,
+ * e.g. where IndexedDB is unavailable, are logged and treated as misses.
+ */
+export class LayoutCache {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /** Called when layouts are added or cleared. */
+  onChanged = () => {};
+
+  /**
+   * Returns the cached layout for the key, or null if there is none.
+   */
+  async get(key: LayoutKey): Promise<CachedLayout | null> {
+    try {
+      const hash = await hashLayoutKey(key);
+      const store = await this.getStore('readonly');
+      const record: LayoutRecord | undefined = await requestToPromise(
+        store.get(hash),
+      );
+      if (!record) {
+        return null;
+      }
+      return {
+        labels: record.labels,
+        positions: unflatten(record.positions, DIMENSIONS),
+        vectors: record.vectors
+          ? unflatten(
+              record.vectors,
+              record.vectors.length / record.labels.length,
+            )
+          : null,
+      };
+    } catch (e) {
+      console.warn('Failed to read the layout cache: ', e);
+      return null;
+    }
+  }
+
+  /**
+   * Caches a layout for the key.
+   */
+  async put(key: LayoutKey, layout: CachedLayout) {
+    try {
+      const hash = await hashLayoutKey(key);
+      const positions = new Float32Array(layout.positions.flat());
+      const vectors = layout.vectors
+        ? new Float32Array(layout.vectors.flat())
+        : null;
+      const record: LayoutRecord = {
+        key: hash,
+        labels: layout.labels,
+        positions,
+        vectors,
+        bytes:
+          positions.byteLength +
+          (vectors?.byteLength ?? 0) +
+          JSON.stringify(layout.labels).length,
+      };
+      const store = await this.getStore('readwrite');
+      await requestToPromise(store.put(record));
+      this.onChanged();
+    } catch (e) {
+      console.warn('Failed to write the layout cache: ', e);
+    }
+  }
+
+  /**
+   * Counts the cached layouts and their size.
+   */
+  async getStats(): Promise<LayoutCacheStats> {
+    const stats = {count: 0, bytes: 0};
+    try {
+      const store = await this.getStore('readonly');
+      await new Promise<void>((resolve, reject) => {
+        const request = store.openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            resolve();
+            return;
+          }
+          stats.count++;
+          stats.bytes += (cursor.value as LayoutRecord).bytes;
+          cursor.continue();
+        };
+        request.onerror = () => {
+          reject(request.error);
+        };
+      });
+    } catch (e) {
+      console.warn('Failed to read the layout cache: ', e);
+    }
+    return stats;
+  }
+
+  /**
+   * Removes all cached layouts.
+   */
+  async clear() {
+    try {
+      const store = await this.getStore('readwrite');
+      await requestToPromise(store.clear());
+      this.onChanged();
+    } catch (e) {
+      console.warn('Failed to clear the layout cache: ', e);
+    }
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    this.db ??= openDatabase();
+    const db = await this.db;
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, {keyPath: 'key'});
+    };
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      reject(request.error);
+    };
+  });
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      reject(request.error);
+    };
+  });
+}
+
+async function hashLayoutKey(key: LayoutKey): Promise<string> {
+  const {embeddings, ...settings} = key;
+  let embeddingHash = embeddingHashes.get(embeddings);
+  if (!embeddingHash) {
+    embeddingHash = hashEmbeddings(embeddings);
+    embeddingHashes.set(embeddings, embeddingHash);
+  }
+  const text = JSON.stringify({
+    version: KEY_VERSION,
+    embeddings: await embeddingHash,
+    ...settings,
+  });
+  return sha256(new TextEncoder().encode(text));
+}
+
+// Hashes the labels and vectors, in order.
+function hashEmbeddings(embeddings: Map<string, number[]>): Promise<string> {
+  const labels = new TextEncoder().encode(
+    JSON.stringify(Array.from(embeddings.keys())),
+  );
+  const vectors = new Float32Array(Array.from(embeddings.values()).flat());
+  const bytes = new Uint8Array(labels.length + vectors.byteLength);
+  bytes.set(labels);
+  bytes.set(new Uint8Array(vectors.buffer), labels.length);
+  return sha256(bytes);
+}
+
+async function sha256(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+}
+
+function unflatten(values: Float32Array, dimensions: number): number[][] {
+  return Array.from({length: values.length / dimensions}, (_, i) =>
+    Array.from(values.subarray(i * dimensions, (i + 1) * dimensions)),
+  );
+}
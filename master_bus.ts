@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Master output chain with EQ, compressor, limiter and volume.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const STORAGE_KEY = 'masterBusSettings';
+const LOW_SHELF_FREQUENCY = 250;
+const MID_PEAK_FREQUENCY = 1000;
+const HIGH_SHELF_FREQUENCY = 4000;
+const SETTING_RAMP_TIME = 0.05;
+
+/**
+ * The user adjustable settings of the master bus.
+ */
+export interface MasterBusSettings {
+  /** Low shelf gain in dB. */
+  lowGain: number;
+  /** Mid band gain in dB. */
+  midGain: number;
+  /** High shelf gain in dB. */
+  highGain: number;
+  /** Compressor threshold in dB. */
+  compressorThreshold: number;
+  /** Compressor ratio. */
+  compressorRatio: number;
+  /** Limiter ceiling in dB. */
+  limiterCeiling: number;
+  /** Master volume between 0 and 1. */
+  volume: number;
+  muted: boolean;
+}
+
+/**
+ * The default master bus settings: a flat EQ, gentle compression and a limiter
+ * just below full scale.
+ */
+export const DEFAULT_MASTER_BUS_SETTINGS: MasterBusSettings = {
+  lowGain: 0,
+  midGain: 0,
+  highGain: 0,
+  compressorThreshold: -18,
+  compressorRatio: 2,
+  limiterCeiling: -1,
+  volume: 1,
+  muted: false,
+};
+
+/**
+ * Loads the master bus settings saved in a previous session.
+ */
+export function loadMasterBusSettings(): MasterBusSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {...DEFAULT_MASTER_BUS_SETTINGS, ...saved};
+  } catch (e) {
+    console.warn('Failed to load master bus settings.', e);
+    return {...DEFAULT_MASTER_BUS_SETTINGS};
+  }
+}
+
+/**
+ * Saves the master bus settings for the next session.
+ */
+export function saveMasterBusSettings(settings: MasterBusSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * A persistent chain of nodes between the decks and the speakers:
+ *
+ *   input -> low shelf -> mid peak -> high shelf -> compressor -> limiter ->
+ *   clipper -> volume -> destination
+ *
+ * Play, pause, stop and reset ramps happen on the decks' outputs so they never
+ * interfere with the user's volume and mute settings.
+ */
+export class MasterBus {
+  readonly input: GainNode;
+  /** The processed mix before the volume stage, e.g. for recording. */
+  readonly mix: AudioNode;
+  private readonly lowShelf: BiquadFilterNode;
+  private readonly midPeak: BiquadFilterNode;
+  private readonly highShelf: BiquadFilterNode;
+  private readonly compressor: DynamicsCompressorNode;
+  private readonly limiter: DynamicsCompressorNode;
+  private readonly clipper: WaveShaperNode;
+  private readonly volume: GainNode;
+
+  constructor(
+    private readonly audioContext: AudioContext,
+    settings: MasterBusSettings = DEFAULT_MASTER_BUS_SETTINGS,
+  ) {
+    this.input = audioContext.createGain();
+
+    this.lowShelf = audioContext.createBiquadFilter();
+    this.lowShelf.type = 'lowshelf';
+    this.lowShelf.frequency.value = LOW_SHELF_FREQUENCY;
+
+    this.midPeak = audioContext.createBiquadFilter();
+    this.midPeak.type = 'peaking';
+    this.midPeak.frequency.value = MID_PEAK_FREQUENCY;
+    this.midPeak.Q.value = 0.7;
+
+    this.highShelf = audioContext.createBiquadFilter();
+    this.highShelf.type = 'highshelf';
+    this.highShelf.frequency.value = HIGH_SHELF_FREQUENCY;
+
+    this.compressor = audioContext.createDynamicsCompressor();
+    this.compressor.knee.value = 6;
+    this.compressor.attack.value = 0.01;
+    this.compressor.release.value = 0.25;
+
+    // A fast, hard-kneed compressor catches peaks, and the clipper guarantees
+    // nothing gets past the ceiling while the limiter's attack catches up.
+    this.limiter = audioContext.createDynamicsCompressor();
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.05;
+    this.clipper = audioContext.createWaveShaper();
+    this.mix = this.clipper;
+
+    this.volume = audioContext.createGain();
+
+    this.input
+      .connect(this.lowShelf)
+      .connect(this.midPeak)
+      .connect(this.highShelf)
+      .connect(this.compressor)
+      .connect(this.limiter)
+      .connect(this.clipper)
+      .connect(this.volume)
+      .connect(audioContext.destination);
+
+    this.applySettings(settings);
+  }
+
+  /**
+   * Applies the given settings, ramping gains to avoid clicks.
+   */
+  applySettings(settings: MasterBusSettings) {
+    const now = this.audioContext.currentTime;
+    this.lowShelf.gain.setTargetAtTime(
+      settings.lowGain,
+      now,
+      SETTING_RAMP_TIME,
+    );
+    this.midPeak.gain.setTargetAtTime(settings.midGain, now, SETTING_RAMP_TIME);
+    this.highShelf.gain.setTargetAtTime(
+      settings.highGain,
+      now,
+      SETTING_RAMP_TIME,
+    );
+    this.compressor.threshold.value = settings.compressorThreshold;
+    this.compressor.ratio.value = settings.compressorRatio;
+    this.limiter.threshold.value = settings.limiterCeiling;
+    this.clipper.curve = createClipperCurve(
+      Math.pow(10, settings.limiterCeiling / 20),
+    );
+    this.volume.gain.setTargetAtTime(
+      settings.muted ? 0 : settings.volume,
+      now,
+      SETTING_RAMP_TIME,
+    );
+  }
+}
+
+// Returns a wave shaper curve that passes samples through up to the ceiling
+// and clips them above it.
+function createClipperCurve(ceiling: number): Float32Array {
+  const size = 4096;
+  const curve = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = (i / (size - 1)) * 2 - 1;
+    curve[i] = Math.max(-ceiling, Math.min(ceiling, x));
+  }
+  return curve;
+}
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Controls for the master output chain.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import '@material/web/all.js';
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {type MasterBusSettings} from './master_bus';
+import {MD_STYLES} from './styles';
+
+interface SliderSpec {
+  property: keyof MasterBusSettings;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const SLIDERS: SliderSpec[] = [
+  {property: 'volume', label: 'Volume', min: 0, max: 1, step: 0.01},
+  {property: 'lowGain', label: 'Low (dB)', min: -12, max: 12, step: 0.5},
+  {property: 'midGain', label: 'Mid (dB)', min: -12, max: 12, step: 0.5},
+  {property: 'highGain', label: 'High (dB)', min: -12, max: 12, step: 0.5},
+  {
+    property: 'compressorThreshold',
+    label: 'Comp Threshold (dB)',
+    min: -48,
+    max: 0,
+    step: 1,
+  },
+  {
+    property: 'compressorRatio',
+    label: 'Comp Ratio',
+    min: 1,
+    max: 12,
+    step: 0.5,
+  },
+  {
+    property: 'limiterCeiling',
+    label: 'Limiter Ceiling (dB)',
+    min: -12,
+    max: 0,
+    step: 0.5,
+  },
+];
+
+/**
+ * A component for controlling the master output chain.
+ */
+@customElement('master-bus-settings')
+export class MasterBusSettingsComponent extends LitElement {
+  static override styles = [
+    MD_STYLES,
+    css`
+      :host {
+        display: block;
+        width: fit-content;
+      }
+      .flex-row {
+        background: rgba(26, 26, 26, 0.5);
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        padding: 6px 0px;
+        width: fit-content;
+        gap: 8px;
+      }
+      .slider-label {
+        display: flex;
+        flex-direction: column;
+        color: var(--md-sys-color-on-surface-variant);
+        font-size: 12px;
+        white-space: nowrap;
+      }
+      md-slider {
+        width: 120px;
+      }
+      .checkbox-label {
+        display: flex;
+        align-items: center;
+        color: var(--md-sys-color-on-surface-variant);
+        font-size: 14px;
+        gap: 8px;
+        white-space: nowrap;
+        cursor: pointer;
+      }
+      .checkbox-label:hover {
+        color: var(--md-sys-color-on-primary);
+      }
+    `,
+  ];
+
+  @property({type: Object}) settings!: MasterBusSettings;
+
+  private dispatchChange<K extends keyof MasterBusSettings>(
+    property: K,
+    value: MasterBusSettings[K],
+  ) {
+    this.dispatchEvent(
+      new CustomEvent('master-bus-changed', {
+        bubbles: true,
+        composed: true,
+        detail: {property, value},
+      }),
+    );
+  }
+
+  private handleSliderChange(e: Event) {
+    const target = e.target as HTMLInputElement;
+    const property = target.dataset['property'] as keyof MasterBusSettings;
+    if (!property || !this.settings || !(property in this.settings)) {
+      console.error('failed to find master bus setting', property);
+      return;
+    }
+    this.dispatchChange(property, Number(target.value));
+  }
+
+  private handleMuteChange(e: Event) {
+    const target = e.target as HTMLInputElement & {checked: boolean};
+    this.dispatchChange('muted', target.checked);
+  }
+
+  override render() {
+    if (!this.settings) {
+      return html``;
+    }
+    return html`
+      <div class="flex-row">
+        ${SLIDERS.map(
+          (slider) => html`
+            <label class="slider-label">
+              ${slider.label}
+              <md-slider
+                labeled
+                min=${slider.min}
+                max=${slider.max}
+                step=${slider.step}
+                .value=${this.settings[slider.property] as number}
+                data-property=${slider.property}
+                @change=${this.handleSliderChange}></md-slider>
+            </label>
+          `,
+        )}
+        <label class="checkbox-label">
+          Mute
+          <md-checkbox
+            ?checked=${this.settings.muted}
+            @change=${this.handleMuteChange}></md-checkbox>
+        </label>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'master-bus-settings': MasterBusSettingsComponent;
+  }
+}
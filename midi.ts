@@ -0,0 +1,451 @@
+/**
+ * @fileoverview MIDI input, MIDI learn and mapping presets.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const PRESETS_STORAGE_KEY = 'midiPresets';
+const ACTIVE_PRESET_STORAGE_KEY = 'midiActivePreset';
+const DEFAULT_PRESET_NAME = 'Default';
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+
+/**
+ * A knob, fader or pad on a MIDI controller.
+ */
+export interface MidiControl {
+  /** Knobs and faders send control changes, pads send notes. */
+  type: 'cc' | 'note';
+  /** The MIDI channel, between 1 and 16. */
+  channel: number;
+  /** The controller or note number. */
+  number: number;
+}
+
+/**
+ * A control moved to a new value.
+ */
+export interface MidiMessage extends MidiControl {
+  /** The control value or note velocity, between 0 and 1. */
+  value: number;
+}
+
+/**
+ * How a mapped control is applied.
+ *
+ * - `axis`: a bipolar value, centered on the middle of a knob or fader.
+ * - `fader`: a value between 0 and 1.
+ * - `trigger`: an action fired when the control is pressed or passes half
+ *   way.
+ */
+export type MidiTargetKind = 'axis' | 'fader' | 'trigger';
+
+/**
+ * Something a control can be mapped to.
+ */
+export interface MidiTarget {
+  id: string;
+  label: string;
+  /** The heading the target is listed under. */
+  group: string;
+  kind: MidiTargetKind;
+}
+
+/**
+ * Maps a control to a target.
+ */
+export interface MidiMapping {
+  control: MidiControl;
+  target: string;
+  /** Whether the control works the other way round. */
+  invert: boolean;
+}
+
+/**
+ * A mapped control moved.
+ */
+export interface MidiInput {
+  target: string;
+  /** The control value or note velocity, between 0 and 1. */
+  value: number;
+  /** The previous value of the control, to detect presses. */
+  previousValue: number;
+  /** Whether the control is a pad, which is 0 when released. */
+  isNote: boolean;
+  invert: boolean;
+}
+
+/**
+ * A named set of mappings, e.g. one per controller.
+ */
+export interface MidiPreset {
+  name: string;
+  mappings: MidiMapping[];
+}
+
+/**
+ * Parses a control change, note on or note off message.
+ *
+ * @return The message, or null for other kinds of messages.
+ */
+export function parseMidiMessage(data: ArrayLike<number>): MidiMessage | null {
+  if (data.length < 3) {
+    return null;
+  }
+  const status = data[0] & 0xf0;
+  const channel = (data[0] & 0x0f) + 1;
+  const number = data[1];
+  const value = data[2] / 127;
+  if (status === CONTROL_CHANGE) {
+    return {type: 'cc', channel, number, value};
+  }
+  if (status === NOTE_ON) {
+    // A note on with no velocity is a note off.
+    return {type: 'note', channel, number, value};
+  }
+  if (status === NOTE_OFF) {
+    return {type: 'note', channel, number, value: 0};
+  }
+  return null;
+}
+
+/**
+ * Returns a short description of a control, e.g. "CC 21 · CH 1".
+ */
+export function formatMidiControl(control: MidiControl): string {
+  const type = control.type === 'cc' ? 'CC' : 'Note';
+  return `${type} ${control.number} · CH ${control.channel}`;
+}
+
+function isSameControl(a: MidiControl, b: MidiControl): boolean {
+  return a.type === b.type && a.channel === b.channel && a.number === b.number;
+}
+
+/**
+ * A source of raw MIDI messages.
+ */
+export interface MidiSource {
+  /**
+   * Starts listening to the source.
+   *
+   * @throws If the source is not available.
+   */
+  connect(listener: (data: Uint8Array) => void): Promise<void>;
+  disconnect(): void;
+  /** Returns the names of the connected devices. */
+  getInputNames(): string[];
+}
+
+/**
+ * Listens to every MIDI input connected to the computer, including devices
+ * plugged in later.
+ */
+export class WebMidiSource implements MidiSource {
+  private access: MIDIAccess | null = null;
+  private listener: ((data: Uint8Array) => void) | null = null;
+
+  /**
+   * @param onInputsChanged Called when a device is connected or disconnected.
+   */
+  constructor(private readonly onInputsChanged: () => void) {}
+
+  async connect(listener: (data: Uint8Array) => void) {
+    if (!navigator.requestMIDIAccess) {
+      throw new Error('Web MIDI is not supported in this browser.');
+    }
+    this.listener = listener;
+    this.access = await navigator.requestMIDIAccess();
+    this.attachInputs();
+    this.access.onstatechange = () => {
+      this.attachInputs();
+      this.onInputsChanged();
+    };
+  }
+
+  private attachInputs() {
+    for (const input of this.access?.inputs.values() ?? []) {
+      input.onmidimessage = (e: MIDIMessageEvent) => {
+        if (e.data) {
+          this.listener?.(e.data);
+        }
+      };
+    }
+  }
+
+  disconnect() {
+    for (const input of this.access?.inputs.values() ?? []) {
+      input.onmidimessage = null;
+    }
+    if (this.access) {
+      this.access.onstatechange = null;
+    }
+    this.access = null;
+    this.listener = null;
+  }
+
+  getInputNames(): string[] {
+    return Array.from(this.access?.inputs.values() ?? [])
+      .filter((input) => input.state === 'connected')
+      .map((input) => input.name ?? 'MIDI input');
+  }
+}
+
+/**
+ * A MIDI source driven from code, for trying out and testing mappings with no
+ * device attached.
+ */
+export class VirtualMidiSource implements MidiSource {
+  private listener: ((data: Uint8Array) => void) | null = null;
+
+  async connect(listener: (data: Uint8Array) => void) {
+    this.listener = listener;
+  }
+
+  disconnect() {
+    this.listener = null;
+  }
+
+  getInputNames(): string[] {
+    return ['Virtual MIDI'];
+  }
+
+  /**
+   * Sends a raw MIDI message.
+   */
+  send(data: number[]) {
+    this.listener?.(new Uint8Array(data));
+  }
+
+  /**
+   * Moves a knob or fader.
+   *
+   * @param value The controller value, between 0 and 127.
+   */
+  controlChange(number: number, value: number, channel = 1) {
+    this.send([CONTROL_CHANGE | (channel - 1), number, value]);
+  }
+
+  /**
+   * Presses a pad.
+   *
+   * @param velocity The velocity, between 1 and 127.
+   */
+  noteOn(number: number, velocity = 127, channel = 1) {
+    this.send([NOTE_ON | (channel - 1), number, velocity]);
+  }
+
+  /**
+   * Releases a pad.
+   */
+  noteOff(number: number, channel = 1) {
+    this.send([NOTE_OFF | (channel - 1), number, 0]);
+  }
+}
+
+/**
+ * Routes MIDI messages to targets through the mappings of the active preset,
+ * and learns new mappings from the next control moved.
+ */
+export class MidiController {
+  private presets: MidiPreset[];
+  private activePresetName: string;
+  private learningTarget: string | null = null;
+  private readonly sources: MidiSource[] = [];
+  // The last value sent to each target, to detect trigger presses.
+  private readonly lastValues = new Map<string, number>();
+
+  /**
+   * @param onInput Called when a mapped control moves.
+   * @param onChange Called when the presets, the mappings or the learning
+   *     state change.
+   */
+  constructor(
+    private readonly onInput: (input: MidiInput) => void,
+    private readonly onChange: () => void,
+  ) {
+    this.presets = loadPresets();
+    const activePresetName = localStorage.getItem(ACTIVE_PRESET_STORAGE_KEY);
+    this.activePresetName =
+      this.presets.find((p) => p.name === activePresetName)?.name ??
+      this.presets[0].name;
+  }
+
+  /**
+   * Starts listening to a source of MIDI messages.
+   *
+   * @throws If the source is not available.
+   */
+  async addSource(source: MidiSource) {
+    await source.connect((data) => {
+      this.handleMessage(data);
+    });
+    this.sources.push(source);
+    this.onChange();
+  }
+
+  /**
+   * Returns the names of the devices of all sources.
+   */
+  getInputNames(): string[] {
+    return this.sources.flatMap((source) => source.getInputNames());
+  }
+
+  getPresets(): MidiPreset[] {
+    return this.presets;
+  }
+
+  getActivePreset(): MidiPreset {
+    return this.presets.find((p) => p.name === this.activePresetName)!;
+  }
+
+  selectPreset(name: string) {
+    if (!this.presets.some((p) => p.name === name)) {
+      return;
+    }
+    this.activePresetName = name;
+    this.learningTarget = null;
+    this.save();
+  }
+
+  /**
+   * Creates a preset starting from the mappings of the active one, and makes
+   * it active.
+   */
+  createPreset(name: string) {
+    const trimmedName = name.trim();
+    if (!trimmedName || this.presets.some((p) => p.name === trimmedName)) {
+      return;
+    }
+    this.presets = [
+      ...this.presets,
+      {
+        name: trimmedName,
+        mappings: this.getActivePreset().mappings.map((m) => ({...m})),
+      },
+    ];
+    this.selectPreset(trimmedName);
+  }
+
+  /**
+   * Deletes the active preset, unless it is the last one.
+   */
+  deleteActivePreset() {
+    if (this.presets.length === 1) {
+      return;
+    }
+    this.presets = this.presets.filter((p) => p.name !== this.activePresetName);
+    this.selectPreset(this.presets[0].name);
+  }
+
+  /**
+   * Returns whether any preset maps a control.
+   */
+  hasMappings(): boolean {
+    return this.presets.some((p) => p.mappings.length > 0);
+  }
+
+  getLearningTarget(): string | null {
+    return this.learningTarget;
+  }
+
+  /**
+   * Maps the next control moved to a target, or stops learning if the target
+   * is already being learned.
+   */
+  toggleLearning(target: string) {
+    this.learningTarget = this.learningTarget === target ? null : target;
+    this.onChange();
+  }
+
+  clearMapping(target: string) {
+    this.setMappings(
+      this.getActivePreset().mappings.filter((m) => m.target !== target),
+    );
+  }
+
+  toggleInverted(target: string) {
+    this.setMappings(
+      this.getActivePreset().mappings.map((m) =>
+        m.target === target ? {...m, invert: !m.invert} : m,
+      ),
+    );
+  }
+
+  /**
+   * Handles a raw MIDI message from any source.
+   */
+  handleMessage(data: ArrayLike<number>) {
+    const message = parseMidiMessage(data);
+    if (!message) {
+      return;
+    }
+    const {value, ...control} = message;
+    if (this.learningTarget !== null) {
+      if (value === 0) {
+        // Learn from presses and moves, not releases.
+        return;
+      }
+      this.learn(this.learningTarget, control);
+      return;
+    }
+    for (const mapping of this.getActivePreset().mappings) {
+      if (!isSameControl(mapping.control, control)) {
+        continue;
+      }
+      const previousValue = this.lastValues.get(mapping.target) ?? 0;
+      this.lastValues.set(mapping.target, value);
+      this.onInput({
+        target: mapping.target,
+        value,
+        previousValue,
+        isNote: control.type === 'note',
+        invert: mapping.invert,
+      });
+    }
+  }
+
+  private learn(target: string, control: MidiControl) {
+    this.learningTarget = null;
+    // A control drives a single target.
+    const mappings = this.getActivePreset().mappings.filter(
+      (m) => m.target !== target && !isSameControl(m.control, control),
+    );
+    this.setMappings([...mappings, {control, target, invert: false}]);
+  }
+
+  private setMappings(mappings: MidiMapping[]) {
+    this.presets = this.presets.map((p) =>
+      p.name === this.activePresetName ? {...p, mappings} : p,
+    );
+    this.save();
+  }
+
+  private save() {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(this.presets));
+    localStorage.setItem(ACTIVE_PRESET_STORAGE_KEY, this.activePresetName);
+    this.onChange();
+  }
+
+  /**
+   * Stops listening to all sources.
+   */
+  dispose() {
+    for (const source of this.sources) {
+      source.disconnect();
+    }
+  }
+}
+
+function loadPresets(): MidiPreset[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) ?? '[]');
+    if (Array.isArray(saved) && saved.length > 0) {
+      return saved;
+    }
+  } catch (e) {
+    console.warn('Failed to load MIDI presets.', e);
+  }
+  return [{name: DEFAULT_PRESET_NAME, mappings: []}];
+}
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview Controls for MIDI learn and MIDI mapping presets.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import '@material/web/all.js';
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+import {when} from 'lit/directives/when.js';
+import {formatMidiControl, type MidiPreset, type MidiTarget} from './midi';
+import {MD_STYLES} from './styles';
+
+/**
+ * A component for mapping MIDI controls to targets and managing presets.
+ */
+@customElement('midi-settings')
+export class MidiSettingsComponent extends LitElement {
+  static override styles = [
+    MD_STYLES,
+    css`
+      :host {
+        display: block;
+        width: fit-content;
+        max-width: 100%;
+      }
+      .flex-row {
+        background: rgba(26, 26, 26, 0.5);
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        padding: 6px 0px;
+        width: fit-content;
+        gap: 8px;
+      }
+      .status {
+        color: var(--md-sys-color-on-surface-variant);
+        font-size: 12px;
+      }
+      md-outlined-text-field {
+        max-width: 160px;
+      }
+      .mappings {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(300px, 1fr));
+        gap: 2px 16px;
+        max-height: 30vh;
+        overflow-y: auto;
+        padding: 6px;
+        background: rgba(26, 26, 26, 0.5);
+        color: #e0e0e0;
+        font-size: 12px;
+      }
+      .group {
+        grid-column: 1 / -1;
+        margin-top: 6px;
+        color: var(--md-sys-color-on-surface-variant);
+        letter-spacing: 0.5px;
+        text-transform: uppercase;
+      }
+      .mapping {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+      }
+      .label {
+        flex: 1;
+        min-width: 0;
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+      .control {
+        color: var(--md-sys-color-on-surface-variant);
+        font-variant-numeric: tabular-nums;
+        white-space: nowrap;
+      }
+      .control.learning {
+        color: #f0b400;
+      }
+      button {
+        padding: 2px 6px;
+        border: 1px solid rgba(255, 255, 255, 0.3);
+        border-radius: 4px;
+        background: transparent;
+        color: #a1a1a1;
+        font-size: 11px;
+        font-weight: bold;
+        cursor: pointer;
+      }
+      button:hover {
+        color: #fff;
+        border-color: #fff;
+      }
+      button.active {
+        background: #f0b400;
+        border-color: #f0b400;
+        color: #1a1a1a;
+      }
+    `,
+  ];
+
+  @property({type: Array}) targets: MidiTarget[] = [];
+  @property({type: Array}) presets: MidiPreset[] = [];
+  @property({type: String}) activePresetName = '';
+  @property({type: String}) learningTarget: string | null = null;
+  /** The connected devices, or a message saying why there are none. */
+  @property({type: String}) status = '';
+  @state() private newPresetName = '';
+
+  private dispatch(type: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(type, {bubbles: true, composed: true, detail}),
+    );
+  }
+
+  private handlePresetChange(e: Event) {
+    const target = e.target as HTMLSelectElement;
+    this.dispatch('midi-preset-selected', {name: target.value});
+  }
+
+  private createPreset() {
+    if (!this.newPresetName.trim()) {
+      return;
+    }
+    this.dispatch('midi-preset-created', {name: this.newPresetName});
+    this.newPresetName = '';
+  }
+
+  private renderTarget(target: MidiTarget) {
+    const preset = this.presets.find((p) => p.name === this.activePresetName);
+    const mapping = preset?.mappings.find((m) => m.target === target.id);
+    const isLearning = this.learningTarget === target.id;
+    return html`
+      <div class="mapping">
+        <span class="label" title=${target.label}>${target.label}</span>
+        <span class=${classMap({'control': true, 'learning': isLearning})}>
+          ${isLearning
+            ? 'Move a control…'
+            : mapping
+              ? formatMidiControl(mapping.control)
+              : '—'}
+        </span>
+        <button
+          class=${classMap({'active': isLearning})}
+          title="Map the next control moved"
+          @click=${() => this.dispatch('midi-learn', {target: target.id})}>
+          Learn
+        </button>
+        ${when(
+          mapping && target.kind !== 'trigger',
+          () => html`
+            <button
+              class=${classMap({'active': mapping!.invert})}
+              title="Invert"
+              @click=${() => this.dispatch('midi-invert', {target: target.id})}>
+              ±
+            </button>
+          `,
+        )}
+        ${when(
+          mapping,
+          () => html`
+            <button
+              title="Remove the mapping"
+              @click=${() => this.dispatch('midi-clear', {target: target.id})}>
+              ✕
+            </button>
+          `,
+        )}
+      </div>
+    `;
+  }
+
+  override render() {
+    const groups = new Map<string, MidiTarget[]>();
+    for (const target of this.targets) {
+      groups.set(target.group, [...(groups.get(target.group) ?? []), target]);
+    }
+    return html`
+      <div class="flex-row">
+        <md-outlined-select
+          label="MIDI Preset"
+          .value=${this.activePresetName}
+          @change=${this.handlePresetChange}>
+          ${this.presets.map(
+            (preset) => html`
+              <md-select-option
+                value=${preset.name}
+                ?selected=${preset.name === this.activePresetName}>
+                <div slot="headline">${preset.name}</div>
+              </md-select-option>
+            `,
+          )}
+        </md-outlined-select>
+        <md-outlined-text-field
+          label="New Preset"
+          .value=${this.newPresetName}
+          @input=${(e: Event) => {
+            this.newPresetName = (e.target as HTMLInputElement).value;
+          }}
+          @keydown=${(e: KeyboardEvent) => {
+            if (e.key === 'Enter') {
+              this.createPreset();
+            }
+          }}></md-outlined-text-field>
+        <md-outlined-button @click=${this.createPreset}>
+          Save As
+        </md-outlined-button>
+        <md-outlined-button
+          ?disabled=${this.presets.length < 2}
+          @click=${() => this.dispatch('midi-preset-deleted')}>
+          Delete
+        </md-outlined-button>
+        <span class="status">${this.status}</span>
+      </div>
+      <div class="mappings">
+        ${Array.from(groups.entries()).map(
+          ([group, targets]) => html`
+            <div class="group">${group}</div>
+            ${targets.map((target) => this.renderTarget(target))}
+          `,
+        )}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-settings': MidiSettingsComponent;
+  }
+}
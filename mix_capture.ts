@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Captures the output of an audio node as 16-bit PCM chunks.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {loadWorkletModule, type AudioWorkletScope} from './worklet';
+
+const PROCESSOR_NAME = 'mix-capture';
+const STOP_TIMEOUT_MS = 500;
+
+/**
+ * Runs in the AudioWorkletGlobalScope. It is serialized with `toString()` and
+ * loaded from a Blob URL, so it must not reference anything outside its body.
+ *
+ * While capturing, the processor interleaves and converts its input to Int16,
+ * and posts it in blocks tagged with the frame they started at.
+ */
+function mixCaptureWorklet(scope: AudioWorkletScope) {
+  const BLOCK_SECONDS = 0.1;
+
+  class MixCaptureProcessor extends scope.AudioWorkletProcessor {
+    private readonly numChannels: number;
+    private readonly blockFrames = Math.round(BLOCK_SECONDS * scope.sampleRate);
+    private block: Int16Array;
+    private blockStartFrame = 0;
+    private blockLength = 0;
+    private capturing = false;
+
+    constructor(options: {processorOptions: {numChannels: number}}) {
+      super();
+      this.numChannels = options.processorOptions.numChannels;
+      this.block = new Int16Array(this.blockFrames * this.numChannels);
+      this.port.onmessage = (e: MessageEvent) => {
+        if (e.data.type === 'start') {
+          this.capturing = true;
+          this.blockLength = 0;
+        } else if (e.data.type === 'stop') {
+          this.postBlock();
+          this.capturing = false;
+          this.port.postMessage({type: 'stopped'});
+        }
+      };
+    }
+
+    private postBlock() {
+      if (this.blockLength === 0) {
+        return;
+      }
+      const pcm = this.block.slice(0, this.blockLength * this.numChannels);
+      this.port.postMessage({type: 'chunk', pcm, frame: this.blockStartFrame}, [
+        pcm.buffer,
+      ]);
+      this.blockLength = 0;
+    }
+
+    process(inputs: Float32Array[][]) {
+      if (!this.capturing) {
+        return true;
+      }
+      const input = inputs[0];
+      const frames = input[0]?.length ?? 128;
+      for (let i = 0; i < frames; i++) {
+        if (this.blockLength === 0) {
+          this.blockStartFrame = scope.currentFrame + i;
+        }
+        for (let c = 0; c < this.numChannels; c++) {
+          // Mono inputs are copied to every channel.
+          const channel = input[c] ?? input[0];
+          const sample = Math.max(-1, Math.min(1, channel?.[i] ?? 0));
+          this.block[this.blockLength * this.numChannels + c] = Math.round(
+            sample * 32767,
+          );
+        }
+        this.blockLength++;
+        if (this.blockLength === this.blockFrames) {
+          this.postBlock();
+        }
+      }
+      return true;
+    }
+  }
+
+  scope.registerProcessor('mix-capture', MixCaptureProcessor);
+}
+
+/**
+ * Captures everything played through a node, converting it off the main
+ * thread.
+ */
+export class MixCapture {
+  private node: AudioWorkletNode | null = null;
+  private onStopped: (() => void) | null = null;
+  /** Resolves once the worklet is loaded and connected to the source. */
+  readonly ready: Promise<void>;
+
+  /**
+   * @param audioContext The audio context of the source.
+   * @param source The node to capture.
+   * @param onChunk Called with each captured chunk of interleaved 16-bit PCM
+   *     and the audio context time at which it was played.
+   * @param numChannels The number of channels to capture.
+   */
+  constructor(
+    private readonly audioContext: AudioContext,
+    source: AudioNode,
+    private readonly onChunk: (pcm: Int16Array, when: number) => void,
+    private readonly numChannels = 2,
+  ) {
+    this.ready = this.init(source);
+  }
+
+  private async init(source: AudioNode) {
+    await loadWorkletModule(
+      this.audioContext,
+      PROCESSOR_NAME,
+      mixCaptureWorklet,
+    );
+    this.node = new AudioWorkletNode(this.audioContext, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: this.numChannels,
+      channelCountMode: 'explicit',
+      processorOptions: {numChannels: this.numChannels},
+    });
+    this.node.port.onmessage = (e: MessageEvent) => {
+      if (e.data.type === 'chunk') {
+        this.onChunk(e.data.pcm, e.data.frame / this.audioContext.sampleRate);
+      } else if (e.data.type === 'stopped') {
+        this.onStopped?.();
+        this.onStopped = null;
+      }
+    };
+    source.connect(this.node);
+  }
+
+  /**
+   * Starts capturing.
+   */
+  async start() {
+    await this.ready;
+    this.node?.port.postMessage({type: 'start'});
+  }
+
+  /**
+   * Stops capturing, resolving once every captured chunk has been delivered,
+   * or after a timeout if the audio thread does not answer.
+   */
+  async stop() {
+    await this.ready;
+    const stopped = new Promise<void>((resolve) => {
+      this.onStopped = resolve;
+      setTimeout(resolve, STOP_TIMEOUT_MS);
+    });
+    this.node?.port.postMessage({type: 'stop'});
+    await stopped;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Abstraction over the real time music generation service.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  GoogleGenAI,
+  type LiveMusicCallbacks,
+  type LiveMusicSession,
+  type LiveMusicSetConfigParameters,
+  type LiveMusicSetWeightedPromptsParameters,
+} from '@google/genai';
+
+const LYRIA_RT_MODEL = 'lyria-realtime-exp';
+
+/**
+ * A real time music generation backend.
+ *
+ * Backends stream audio back through the `onmessage` callback as
+ * `LiveMusicServerMessage`s holding base64 encoded, interleaved 16-bit PCM at
+ * 48 kHz stereo.
+ */
+export interface MusicBackend {
+  /**
+   * Opens a new session. The backend signals that the session is ready by
+   * sending a `setupComplete` message.
+   */
+  connect(callbacks: LiveMusicCallbacks): Promise<void>;
+  /** Starts or resumes streaming audio. */
+  play(): void;
+  /** Pauses streaming audio. */
+  pause(): void;
+  /** Stops streaming audio and discards the generation context. */
+  stop(): void;
+  /** Discards the generation context without changing the playback state. */
+  resetContext(): void;
+  /** Sets the weighted prompts that steer the music. */
+  setWeightedPrompts(
+    params: LiveMusicSetWeightedPromptsParameters,
+  ): Promise<void>;
+  /** Sets the music generation config. */
+  setMusicGenerationConfig(params: LiveMusicSetConfigParameters): Promise<void>;
+  /** Closes the current session, if any. */
+  close(): void;
+}
+
+/**
+ * A backend that streams music from Lyria RealTime through the Gemini API.
+ */
+export class LyriaBackend implements MusicBackend {
+  private readonly ai: GoogleGenAI;
+  private session: LiveMusicSession | null = null;
+
+  constructor(apiKey?: string) {
+    this.ai = new GoogleGenAI({
+      apiKey,
+      apiVersion: 'v1alpha',
+    });
+  }
+
+  async connect(callbacks: LiveMusicCallbacks) {
+    this.close();
+    const session = await this.ai.live.music.connect({
+      model: LYRIA_RT_MODEL,
+      callbacks,
+    });
+    // Another call may have connected while this one waited.
+    this.close();
+    this.session = session;
+  }
+
+  private requireSession(): LiveMusicSession {
+    if (!this.session) {
+      throw new Error('Not connected to the music session.');
+    }
+    return this.session;
+  }
+
+  play() {
+    this.requireSession().play();
+  }
+
+  pause() {
+    this.requireSession().pause();
+  }
+
+  stop() {
+    this.requireSession().stop();
+  }
+
+  resetContext() {
+    this.requireSession().resetContext();
+  }
+
+  async setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters) {
+    await this.requireSession().setWeightedPrompts(params);
+  }
+
+  async setMusicGenerationConfig(params: LiveMusicSetConfigParameters) {
+    await this.requireSession().setMusicGenerationConfig(params);
+  }
+
+  close() {
+    this.session?.close();
+    this.session = null;
+  }
+}
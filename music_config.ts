@@ -0,0 +1,289 @@
+/**
+ * @fileoverview The music generation config chosen by the user.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  type LiveMusicGenerationConfig,
+  type MusicGenerationMode,
+  Scale,
+} from '@google/genai';
+import {type TransitionQuantization} from './beat_clock';
+import {type Easing} from './prompt_scheduler';
+
+const STORAGE_KEY = 'musicConfig';
+
+/**
+ * The user adjustable music generation settings. Optional settings are null
+ * when the model should choose them.
+ */
+export interface MusicConfig {
+  /** Beats per minute, between 60 and 200. */
+  bpm: number | null;
+  /** Density of sounds, between 0 and 1. */
+  density: number | null;
+  /** Brightness of the music, between 0 and 1. */
+  brightness: number | null;
+  scale: Scale;
+  /** How closely the model follows the prompts, between 0 and 6. */
+  guidance: number;
+  /** Variance of the generated audio, between 0 and 3. */
+  temperature: number;
+  /** Number of most likely tokens to sample from, between 1 and 1000. */
+  topK: number;
+  /** Seed for the generation, or null for a random seed. */
+  seed: number | null;
+  muteBass: boolean;
+  muteDrums: boolean;
+  onlyBassAndDrums: boolean;
+  /**
+   * The boundary that prompt changes are held until. Only used when the BPM
+   * is set.
+   */
+  transitionQuantization: TransitionQuantization;
+  /** Time in seconds to morph prompt weights to a new mix. */
+  morphDuration: number;
+  morphEasing: Easing;
+}
+
+/**
+ * The default music config, matching the defaults of the model.
+ */
+export const DEFAULT_MUSIC_CONFIG: MusicConfig = {
+  bpm: null,
+  density: null,
+  brightness: null,
+  scale: Scale.SCALE_UNSPECIFIED,
+  guidance: 4,
+  temperature: 1.1,
+  topK: 40,
+  seed: null,
+  muteBass: false,
+  muteDrums: false,
+  onlyBassAndDrums: false,
+  transitionQuantization: 'off',
+  morphDuration: 0,
+  morphEasing: 'ease-in-out',
+};
+
+/**
+ * A numeric setting and the range it can be set in.
+ */
+export interface NumberFieldSpec {
+  property: keyof MusicConfig;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  /** Whether the field may be left empty to let the model choose. */
+  optional: boolean;
+}
+
+/**
+ * The numeric settings.
+ */
+export const NUMBER_FIELDS = [
+  {property: 'bpm', label: 'BPM', min: 60, max: 200, step: 1, optional: true},
+  {
+    property: 'density',
+    label: 'Density',
+    min: 0,
+    max: 1,
+    step: 0.05,
+    optional: true,
+  },
+  {
+    property: 'brightness',
+    label: 'Brightness',
+    min: 0,
+    max: 1,
+    step: 0.05,
+    optional: true,
+  },
+  {
+    property: 'guidance',
+    label: 'Guidance',
+    min: 0,
+    max: 6,
+    step: 0.1,
+    optional: false,
+  },
+  {
+    property: 'temperature',
+    label: 'Temperature',
+    min: 0,
+    max: 3,
+    step: 0.1,
+    optional: false,
+  },
+  {
+    property: 'topK',
+    label: 'Top K',
+    min: 1,
+    max: 1000,
+    step: 1,
+    optional: false,
+  },
+  {
+    property: 'seed',
+    label: 'Seed',
+    min: 0,
+    max: 2147483647,
+    step: 1,
+    optional: true,
+  },
+  {
+    property: 'morphDuration',
+    label: 'Morph Time (s)',
+    min: 0,
+    max: 30,
+    step: 0.5,
+    optional: false,
+  },
+] as const satisfies readonly NumberFieldSpec[];
+
+/**
+ * The properties of the numeric settings.
+ */
+export type NumberProperty = (typeof NUMBER_FIELDS)[number]['property'];
+
+/**
+ * The on/off settings.
+ */
+export const BOOLEAN_FIELDS = [
+  {property: 'muteBass', label: 'Mute Bass'},
+  {property: 'muteDrums', label: 'Mute Drums'},
+  {property: 'onlyBassAndDrums', label: 'Only Bass & Drums'},
+] as const satisfies ReadonlyArray<{
+  property: keyof MusicConfig;
+  label: string;
+}>;
+
+/**
+ * The properties of the on/off settings.
+ */
+export type BooleanProperty = (typeof BOOLEAN_FIELDS)[number]['property'];
+
+/**
+ * Display names of the scales, each covering a major key and its relative
+ * minor.
+ */
+export const SCALE_LABELS: {[key in Scale]: string} = {
+  [Scale.SCALE_UNSPECIFIED]: 'Auto',
+  [Scale.C_MAJOR_A_MINOR]: 'C major / A minor',
+  [Scale.D_FLAT_MAJOR_B_FLAT_MINOR]: 'D♭ major / B♭ minor',
+  [Scale.D_MAJOR_B_MINOR]: 'D major / B minor',
+  [Scale.E_FLAT_MAJOR_C_MINOR]: 'E♭ major / C minor',
+  [Scale.E_MAJOR_D_FLAT_MINOR]: 'E major / D♭ minor',
+  [Scale.F_MAJOR_D_MINOR]: 'F major / D minor',
+  [Scale.G_FLAT_MAJOR_E_FLAT_MINOR]: 'G♭ major / E♭ minor',
+  [Scale.G_MAJOR_E_MINOR]: 'G major / E minor',
+  [Scale.A_FLAT_MAJOR_F_MINOR]: 'A♭ major / F minor',
+  [Scale.A_MAJOR_G_FLAT_MINOR]: 'A major / G♭ minor',
+  [Scale.B_FLAT_MAJOR_G_MINOR]: 'B♭ major / G minor',
+  [Scale.B_MAJOR_A_FLAT_MINOR]: 'B major / A♭ minor',
+};
+
+/**
+ * Display names of the transition quantization options.
+ */
+export const TRANSITION_QUANTIZATION_LABELS: {
+  [key in TransitionQuantization]: string;
+} = {
+  off: 'Immediately',
+  beat: 'Next beat',
+  bar: 'Next bar',
+  phrase: 'Next phrase',
+};
+
+/**
+ * Display names of the prompt morph easing curves.
+ */
+export const EASING_LABELS: {[key in Easing]: string} = {
+  'linear': 'Linear',
+  'ease-in': 'Ease in',
+  'ease-out': 'Ease out',
+  'ease-in-out': 'Ease in-out',
+};
+
+// Settings that only change how the client sends prompts.
+const CLIENT_PROPERTIES: Array<keyof MusicConfig> = [
+  'transitionQuantization',
+  'morphDuration',
+  'morphEasing',
+];
+
+/**
+ * Returns whether the given setting is part of the config sent to the
+ * session, rather than a client-side setting.
+ */
+export function isGenerationSetting(property: keyof MusicConfig): boolean {
+  return !CLIENT_PROPERTIES.includes(property);
+}
+
+// The model only picks up changes to these settings after a context reset.
+const RESET_CONTEXT_PROPERTIES: Array<keyof MusicConfig> = ['bpm', 'scale'];
+
+/**
+ * Returns whether a change to the given setting only takes effect after the
+ * generation context is reset.
+ */
+export function requiresResetContext(property: keyof MusicConfig): boolean {
+  return RESET_CONTEXT_PROPERTIES.includes(property);
+}
+
+/**
+ * Converts the music config to the config sent to the session. Settings left
+ * to the model are omitted.
+ */
+export function toLiveMusicGenerationConfig(
+  config: MusicConfig,
+  musicGenerationMode: MusicGenerationMode,
+): LiveMusicGenerationConfig {
+  const result: LiveMusicGenerationConfig = {
+    guidance: config.guidance,
+    temperature: config.temperature,
+    topK: config.topK,
+    muteBass: config.muteBass,
+    muteDrums: config.muteDrums,
+    onlyBassAndDrums: config.onlyBassAndDrums,
+    musicGenerationMode,
+  };
+  if (config.bpm !== null) {
+    result.bpm = config.bpm;
+  }
+  if (config.density !== null) {
+    result.density = config.density;
+  }
+  if (config.brightness !== null) {
+    result.brightness = config.brightness;
+  }
+  if (config.scale !== Scale.SCALE_UNSPECIFIED) {
+    result.scale = config.scale;
+  }
+  if (config.seed !== null) {
+    result.seed = config.seed;
+  }
+  return result;
+}
+
+/**
+ * Loads the music config saved in a previous session.
+ */
+export function loadMusicConfig(): MusicConfig {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {...DEFAULT_MUSIC_CONFIG, ...saved};
+  } catch (e) {
+    console.warn('Failed to load music config.', e);
+    return {...DEFAULT_MUSIC_CONFIG};
+  }
+}
+
+/**
+ * Saves the music config for the next session.
+ */
+export function saveMusicConfig(config: MusicConfig) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
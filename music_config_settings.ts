@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Controls for the music generation config.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import '@material/web/all.js';
+
+import {Scale} from '@google/genai';
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {type TransitionQuantization} from './beat_clock';
+import {
+  BOOLEAN_FIELDS,
+  EASING_LABELS,
+  type MusicConfig,
+  NUMBER_FIELDS,
+  SCALE_LABELS,
+  TRANSITION_QUANTIZATION_LABELS,
+} from './music_config';
+import {type Easing} from './prompt_scheduler';
+import {MD_STYLES} from './styles';
+
+/**
+ * A component for controlling the music generation config.
+ */
+@customElement('music-config-settings')
+export class MusicConfigSettingsComponent extends LitElement {
+  static override styles = [
+    MD_STYLES,
+    css`
+      :host {
+        display: block;
+        width: fit-content;
+      }
+      .flex-row {
+        background: rgba(26, 26, 26, 0.5);
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        padding: 6px 0px;
+        width: fit-content;
+        gap: 16px;
+      }
+      .flex-row > * {
+        margin: 0px 3px;
+      }
+      md-outlined-text-field {
+        max-width: 110px;
+      }
+      md-outlined-select {
+        min-width: 200px;
+      }
+      .checkbox-label {
+        display: flex;
+        align-items: center;
+        color: var(--md-sys-color-on-surface-variant);
+        font-size: 14px;
+        gap: 8px;
+        white-space: nowrap;
+        cursor: pointer;
+      }
+      .checkbox-label:hover {
+        color: var(--md-sys-color-on-primary);
+      }
+    `,
+  ];
+
+  @property({type: Object}) config!: MusicConfig;
+
+  private dispatchChange(property: keyof MusicConfig, value: unknown) {
+    this.dispatchEvent(
+      new CustomEvent('music-config-changed', {
+        bubbles: true,
+        composed: true,
+        detail: {property, value},
+      }),
+    );
+  }
+
+  private handleTextFieldBlur(e: FocusEvent) {
+    const target = e.target as HTMLInputElement;
+    const field = NUMBER_FIELDS.find(
+      (f) => f.property === target.dataset['property'],
+    );
+    if (!field || !this.config) {
+      console.error('failed to find music config field', target.dataset);
+      return;
+    }
+
+    const oldValue = this.config[field.property] as number | null;
+    if (field.optional && target.value.trim() === '') {
+      if (oldValue !== null) {
+        this.dispatchChange(field.property, null);
+      }
+      return;
+    }
+    const value = Number(target.value);
+    if (target.value.trim() === '' || isNaN(value)) {
+      // Revert to the old value if input is not a valid number.
+      target.value = oldValue?.toString() ?? '';
+      return;
+    }
+    const clamped = Math.min(field.max, Math.max(field.min, value));
+    target.value = clamped.toString();
+    if (clamped !== oldValue) {
+      this.dispatchChange(field.property, clamped);
+    }
+  }
+
+  private handleScaleChange(e: Event) {
+    const target = e.target as HTMLSelectElement;
+    this.dispatchChange('scale', target.value as Scale);
+  }
+
+  private handleTransitionQuantizationChange(e: Event) {
+    const target = e.target as HTMLSelectElement;
+    this.dispatchChange(
+      'transitionQuantization',
+      target.value as TransitionQuantization,
+    );
+  }
+
+  private handleMorphEasingChange(e: Event) {
+    const target = e.target as HTMLSelectElement;
+    this.dispatchChange('morphEasing', target.value as Easing);
+  }
+
+  private handleCheckboxChange(e: Event) {
+    const target = e.target as HTMLInputElement & {checked: boolean};
+    const property = target.dataset['property'] as keyof MusicConfig;
+    if (!property || !this.config || !(property in this.config)) {
+      console.error('failed to find music config property', property);
+      return;
+    }
+    this.dispatchChange(property, target.checked);
+  }
+
+  override render() {
+    if (!this.config) {
+      return html``;
+    }
+    return html`
+      <div class="flex-row">
+        ${NUMBER_FIELDS.map(
+          (field) => html`
+            <md-outlined-text-field
+              label=${field.label}
+              type="number"
+              min=${field.min}
+              max=${field.max}
+              step=${field.step}
+              placeholder=${field.optional ? 'Auto' : ''}
+              .value=${this.config[field.property]?.toString() ?? ''}
+              data-property=${field.property}
+              @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
+          `,
+        )}
+        <md-outlined-select
+          label="Scale"
+          .value=${this.config.scale}
+          @change=${this.handleScaleChange}>
+          ${Object.values(Scale).map(
+            (scale) => html`
+              <md-select-option
+                value=${scale}
+                ?selected=${scale === this.config.scale}>
+                <div slot="headline">${SCALE_LABELS[scale]}</div>
+              </md-select-option>
+            `,
+          )}
+        </md-outlined-select>
+        <md-outlined-select
+          label="Prompt Changes"
+          title="When a BPM is set, hold prompt changes until the next beat, bar or phrase."
+          .value=${this.config.transitionQuantization}
+          @change=${this.handleTransitionQuantizationChange}>
+          ${Object.entries(TRANSITION_QUANTIZATION_LABELS).map(
+            ([value, label]) => html`
+              <md-select-option
+                value=${value}
+                ?selected=${value === this.config.transitionQuantization}>
+                <div slot="headline">${label}</div>
+              </md-select-option>
+            `,
+          )}
+        </md-outlined-select>
+        <md-outlined-select
+          label="Morph Easing"
+          .value=${this.config.morphEasing}
+          @change=${this.handleMorphEasingChange}>
+          ${Object.entries(EASING_LABELS).map(
+            ([value, label]) => html`
+              <md-select-option
+                value=${value}
+                ?selected=${value === this.config.morphEasing}>
+                <div slot="headline">${label}</div>
+              </md-select-option>
+            `,
+          )}
+        </md-outlined-select>
+        ${BOOLEAN_FIELDS.map(
+          (checkbox) => html`
+            <label class="checkbox-label">
+              ${checkbox.label}
+              <md-checkbox
+                ?checked=${this.config[checkbox.property] as boolean}
+                data-property=${checkbox.property}
+                @change=${this.handleCheckboxChange}></md-checkbox>
+            </label>
+          `,
+        )}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'music-config-settings': MusicConfigSettingsComponent;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Compares the neighbor index with scanning every vector, on the
+ * built-in embeddings and on jittered copies of them. The index scans below
+ * MIN_TREE_POINTS, so the sizes on either side of it time both its modes.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {bench, describe} from 'vitest';
+import {EMBEDDINGS} from './embeddings';
+import {NeighborIndex} from './neighbor_index';
+import {cosineDistance, createRandomStream} from './utils';
+
+const SIZES = [250, 1000, 5000, 20000];
+const QUERY_COUNT = 20;
+const RADIUS = 0.25;
+const K = 15;
+// How far copies of the built-in embeddings are moved, relative to their
+// values.
+const JITTER = 0.1;
+
+// Takes the built-in embeddings, then jittered copies of them, up to a count.
+function createVectors(count: number): number[][] {
+  const embeddings = Object.values(EMBEDDINGS);
+  const random = createRandomStream(0, 'benchmark');
+  return Array.from({length: count}, (_, i) => {
+    const embedding = embeddings[i % embeddings.length];
+    return i < embeddings.length
+      ? embedding
+      : embedding.map((value) => value * (1 + (random() * 2 - 1) * JITTER));
+  });
+}
+
+// Finds the neighbors the way points were selected before the index.
+function scanWithinRadius(
+  vectors: number[][],
+  queries: number[],
+  radius: number,
+): Map<number, number> {
+  const found = new Map<number, number>();
+  for (const query of queries) {
+    for (const [i, vector] of vectors.entries()) {
+      const distance = cosineDistance(vectors[query], vector);
+      if (distance <= radius) {
+        found.set(i, Math.min(distance, found.get(i) ?? 1));
+      }
+    }
+  }
+  return found;
+}
+
+// Finds the k nearest neighbors of each query by sorting every distance.
+function scanNearest(vectors: number[][], queries: number[], k: number) {
+  for (const query of queries) {
+    vectors
+      .map((vector) => cosineDistance(vectors[query], vector))
+      .sort((a, b) => a - b)
+      .slice(0, k);
+  }
+}
+
+for (const size of SIZES) {
+  const vectors = createVectors(size);
+  const random = createRandomStream(0, 'benchmark-queries');
+  const queries = Array.from({length: QUERY_COUNT}, () =>
+    Math.floor(random() * size),
+  );
+  const index = new NeighborIndex(vectors);
+
+  describe(`${size} points`, () => {
+    bench('build the index', () => {
+      new NeighborIndex(vectors);
+    });
+    bench(`query the index within ${RADIUS}`, () => {
+      index.findWithinRadius(queries, RADIUS);
+    });
+    bench(`scan every vector within ${RADIUS}`, () => {
+      scanWithinRadius(vectors, queries, RADIUS);
+    });
+    bench(`query the index for the ${K} nearest`, () => {
+      for (const query of queries) {
+        index.findNearest(query, K);
+      }
+    });
+    bench(`scan every vector for the ${K} nearest`, () => {
+      scanNearest(vectors, queries, K);
+    });
+  });
+}
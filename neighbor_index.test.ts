@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Tests the neighbor index against computing every cosine
+ * distance, both when it scans and when it searches the tree.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {MIN_TREE_POINTS, NeighborIndex} from './neighbor_index';
+import {cosineDistance, createRandomStream} from './utils';
+
+const DIMENSIONS = 4;
+const QUERIES = [0, 1, 2, 3, 4];
+const RADIUS = 0.05;
+const K = 10;
+// The rows are stored as 32-bit floats, so distances differ slightly.
+const TOLERANCE = 1e-5;
+
+// Random vectors, with a zero vector last.
+function createVectors(count: number): number[][] {
+  const random = createRandomStream(0, 'test-vectors');
+  const vectors = Array.from({length: count - 1}, () =>
+    Array.from({length: DIMENSIONS}, () => random() * 2 - 1),
+  );
+  vectors.push(new Array<number>(DIMENSIONS).fill(0));
+  return vectors;
+}
+
+function distancesFrom(vectors: number[][], query: number): number[] {
+  return vectors.map((vector) => cosineDistance(vectors[query], vector));
+}
+
+for (const [mode, count] of [
+  ['scanning', 500],
+  ['searching the tree', MIN_TREE_POINTS],
+] as const) {
+  describe(`the neighbor index, ${mode}`, () => {
+    const vectors = createVectors(count);
+    const index = new NeighborIndex(vectors);
+
+    it('finds the points within a radius of any query point', () => {
+      const found = index.findWithinRadius(QUERIES, RADIUS);
+
+      const expected = new Map<number, number>();
+      for (const query of QUERIES) {
+        for (const [i, distance] of distancesFrom(vectors, query).entries()) {
+          if (distance <= RADIUS) {
+            expected.set(i, Math.min(distance, expected.get(i) ?? 1));
+          }
+        }
+      }
+      for (const [i, distance] of expected) {
+        if (distance < RADIUS - TOLERANCE) {
+          expect(found.get(i)).toBeCloseTo(distance, 5);
+        }
+      }
+      for (const [i, distance] of found) {
+        expect(distance).toBeLessThanOrEqual(RADIUS);
+        if (distance < RADIUS - TOLERANCE) {
+          expect(expected.get(i)).toBeCloseTo(distance, 5);
+        }
+      }
+    });
+
+    it('finds the k nearest points, starting with the query point', () => {
+      for (const query of QUERIES) {
+        const nearest = index.findNearest(query, K);
+        const distances = distancesFrom(vectors, query);
+        const expected = [...distances].sort((a, b) => a - b).slice(0, K);
+
+        expect(nearest).toHaveLength(K);
+        expect(nearest[0].index).toBe(query);
+        for (const [i, {index, distance}] of nearest.entries()) {
+          expect(distance).toBeCloseTo(distances[index], 5);
+          expect(distance).toBeCloseTo(expected[i], 5);
+        }
+      }
+    });
+
+    it('finds nothing for k of zero', () => {
+      expect(index.findNearest(0, 0)).toEqual([]);
+    });
+
+    it('puts zero vectors at distance 1 from every point', () => {
+      const zero = count - 1;
+
+      expect(index.findWithinRadius([zero], 0.5)).toEqual(new Map());
+      for (const {distance} of index.findNearest(zero, 3)) {
+        expect(distance).toBeCloseTo(1, 10);
+      }
+      const all = index.findNearest(0, count);
+      const fromQuery = all.find(({index}) => index === zero);
+      expect(fromQuery?.distance).toBeCloseTo(1, 10);
+    });
+  });
+}
@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Nearest neighbor queries over the high dimensional
+ * embeddings, scanning normalized rows or, for many points, searching a
+ * vantage-point tree.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const LEAF_SIZE = 8;
+// Below this many points, scanning every row is faster than searching the
+// tree, which prunes little at 128 dimensions. Measured with
+// neighbor_index.bench.ts.
+export const MIN_TREE_POINTS = 10000;
+
+/**
+ * A point found by a query, with its cosine distance to the query point.
+ */
+export interface Neighbor {
+  index: number;
+  distance: number;
+}
+
+/**
+ * Indexes vectors by cosine distance. The vectors are normalized once, so the
+ * cosine distance between rows is one minus their dot product. Below
+ * MIN_TREE_POINTS, queries scan every row.
+ *
+ * Above it, queries search a tree. The Euclidean distance between rows,
+ * which unlike cosine distance is a metric, orders them the same way:
+ * cosine distance = euclidean distance² / 2.
+ *
+ * The tree lives in one array of point indices. A node covers a range of it,
+ * starting with its vantage point. The points after it are split at the
+ * median distance to the vantage point, nearer ones first.
+ */
+export class NeighborIndex {
+  private readonly dimensions: number;
+  private readonly rows: Float32Array;
+  private readonly order: Int32Array;
+  // The median distance of each node, stored at the node's first position.
+  private readonly thresholds: Float64Array;
+  // Zero vectors have no direction, so are at cosine distance 1 from all.
+  private readonly isZero: Uint8Array;
+  private readonly hasTree: boolean;
+
+  constructor(vectors: number[][]) {
+    this.dimensions = vectors[0]?.length ?? 0;
+    this.rows = new Float32Array(vectors.length * this.dimensions);
+    this.isZero = new Uint8Array(vectors.length);
+    for (const [i, vector] of vectors.entries()) {
+      let norm = 0;
+      for (const value of vector) {
+        norm += value * value;
+      }
+      norm = Math.sqrt(norm);
+      if (norm === 0) {
+        this.isZero[i] = 1;
+        continue;
+      }
+      for (let d = 0; d < this.dimensions; d++) {
+        this.rows[i * this.dimensions + d] = vector[d] / norm;
+      }
+    }
+    this.order = Int32Array.from(vectors.keys());
+    this.thresholds = new Float64Array(vectors.length);
+    this.hasTree = vectors.length >= MIN_TREE_POINTS;
+    if (this.hasTree) {
+      this.build(0, vectors.length, new Float64Array(vectors.length));
+    }
+  }
+
+  /**
+   * Finds the points within a cosine distance of any of the query points,
+   * including the query points themselves.
+   *
+   * @param queries The indices of the query points.
+   * @param radius The largest cosine distance to include.
+   * @return A map of the index of each point found to its distance to the
+   *     nearest query point.
+   */
+  findWithinRadius(queries: number[], radius: number): Map<number, number> {
+    const found = new Map<number, number>();
+    const add = (index: number, distance: number) => {
+      found.set(index, Math.min(distance, found.get(index) ?? 1));
+    };
+    for (const query of queries) {
+      if (!this.hasTree) {
+        const distances = this.scan(query);
+        for (let i = 0; i < distances.length; i++) {
+          if (distances[i] <= radius) {
+            add(i, distances[i]);
+          }
+        }
+        continue;
+      }
+      this.searchRadius(query, Math.sqrt(2 * radius), (index, distance) => {
+        add(index, toCosine(distance));
+      });
+    }
+    return found;
+  }
+
+  /**
+   * Finds the k points nearest to a query point, including itself.
+   *
+   * @param query The index of the query point.
+   * @param k The number of points to find.
+   * @return The points found, nearest first.
+   */
+  findNearest(query: number, k: number): Neighbor[] {
+    const nearest: Neighbor[] = [];
+    if (k <= 0) {
+      return nearest;
+    }
+    if (!this.hasTree) {
+      const distances = this.scan(query);
+      for (let i = 0; i < distances.length; i++) {
+        insertNearest(nearest, k, i, distances[i]);
+      }
+      return nearest;
+    }
+    this.searchNearest(query, k, nearest);
+    return nearest.map(({index, distance}) => ({
+      index,
+      distance: toCosine(distance),
+    }));
+  }
+
+  // Returns the cosine distance from the query point to every point.
+  private scan(query: number): Float64Array {
+    const {rows, dimensions, isZero} = this;
+    const distances = new Float64Array(isZero.length).fill(1);
+    if (isZero[query]) {
+      return distances;
+    }
+    const queryOffset = query * dimensions;
+    for (let i = 0; i < isZero.length; i++) {
+      if (isZero[i]) {
+        continue;
+      }
+      const offset = i * dimensions;
+      let dot = 0;
+      for (let d = 0; d < dimensions; d++) {
+        dot += rows[queryOffset + d] * rows[offset + d];
+      }
+      // Rounding can take the distance of a point to itself below zero.
+      distances[i] = Math.max(0, 1 - dot);
+    }
+    return distances;
+  }
+
+  // Returns the Euclidean distance between normalized rows.
+  private distance(a: number, b: number): number {
+    if (this.isZero[a] || this.isZero[b]) {
+      return Math.SQRT2;
+    }
+    const {rows, dimensions} = this;
+    let sum = 0;
+    for (let d = 0; d < dimensions; d++) {
+      const delta = rows[a * dimensions + d] - rows[b * dimensions + d];
+      sum += delta * delta;
+    }
+    return Math.sqrt(sum);
+  }
+
+  // Builds the node covering order[start, end), using distances as scratch.
+  private build(start: number, end: number, distances: Float64Array) {
+    if (end - start <= LEAF_SIZE) {
+      return;
+    }
+    const {order} = this;
+    // Spread the vantage points out by taking the point farthest from the
+    // first one in the range.
+    let farthest = start;
+    for (let i = start + 1; i < end; i++) {
+      distances[i] = this.distance(order[start], order[i]);
+      if (distances[i] > distances[farthest]) {
+        farthest = i;
+      }
+    }
+    [order[start], order[farthest]] = [order[farthest], order[start]];
+    for (let i = start + 1; i < end; i++) {
+      distances[i] = this.distance(order[start], order[i]);
+    }
+    const median = (start + 1 + end) >> 1;
+    this.select(start + 1, end, median, distances);
+    this.thresholds[start] = distances[median];
+    this.build(start + 1, median, distances);
+    this.build(median, end, distances);
+  }
+
+  // Partially sorts order[start, end) by distance with quickselect, so the
+  // kth position holds the point it would hold if fully sorted.
+  private select(
+    start: number,
+    end: number,
+    k: number,
+    distances: Float64Array,
+  ) {
+    const {order} = this;
+    const swap = (i: number, j: number) => {
+      [order[i], order[j]] = [order[j], order[i]];
+      [distances[i], distances[j]] = [distances[j], distances[i]];
+    };
+    let low = start;
+    let high = end - 1;
+    while (low < high) {
+      swap((low + high) >> 1, high);
+      const pivot = distances[high];
+      let store = low;
+      for (let i = low; i < high; i++) {
+        if (distances[i] < pivot) {
+          swap(i, store++);
+        }
+      }
+      swap(store, high);
+      if (store === k) {
+        return;
+      }
+      if (store < k) {
+        low = store + 1;
+      } else {
+        high = store - 1;
+      }
+    }
+  }
+
+  private searchRadius(
+    query: number,
+    radius: number,
+    onFound: (index: number, distance: number) => void,
+  ) {
+    const {order, thresholds} = this;
+    const stack = [0, order.length];
+    while (stack.length > 0) {
+      const end = stack.pop()!;
+      const start = stack.pop()!;
+      if (end - start <= LEAF_SIZE) {
+        for (let i = start; i < end; i++) {
+          const distance = this.distance(query, order[i]);
+          if (distance <= radius) {
+            onFound(order[i], distance);
+          }
+        }
+        continue;
+      }
+      const distance = this.distance(query, order[start]);
+      if (distance <= radius) {
+        onFound(order[start], distance);
+      }
+      const median = (start + 1 + end) >> 1;
+      if (distance - radius <= thresholds[start]) {
+        stack.push(start + 1, median);
+      }
+      if (distance + radius >= thresholds[start]) {
+        stack.push(median, end);
+      }
+    }
+  }
+
+  // Collects the k nearest points into nearest, sorted by Euclidean distance.
+  private searchNearest(query: number, k: number, nearest: Neighbor[]) {
+    const {order, thresholds} = this;
+    const consider = (index: number, distance: number) => {
+      insertNearest(nearest, k, index, distance);
+    };
+    const bound = () =>
+      nearest.length < k ? Infinity : nearest[k - 1].distance;
+
+    const visit = (start: number, end: number) => {
+      if (end - start <= LEAF_SIZE) {
+        for (let i = start; i < end; i++) {
+          consider(order[i], this.distance(query, order[i]));
+        }
+        return;
+      }
+      const distance = this.distance(query, order[start]);
+      consider(order[start], distance);
+      const threshold = thresholds[start];
+      const median = (start + 1 + end) >> 1;
+      // Search the side the query falls in first, to tighten the bound early.
+      if (distance < threshold) {
+        visit(start + 1, median);
+        if (distance + bound() >= threshold) {
+          visit(median, end);
+        }
+      } else {
+        visit(median, end);
+        if (distance - bound() <= threshold) {
+          visit(start + 1, median);
+        }
+      }
+    };
+    visit(0, order.length);
+  }
+}
+
+function toCosine(distance: number): number {
+  return (distance * distance) / 2;
+}
+
+// Adds a point to the k nearest found so far, kept sorted by distance.
+function insertNearest(
+  nearest: Neighbor[],
+  k: number,
+  index: number,
+  distance: number,
+) {
+  if (nearest.length === k && distance >= nearest[k - 1].distance) {
+    return;
+  }
+  let i = Math.min(nearest.length, k - 1);
+  nearest[i] = {index, distance};
+  for (; i > 0 && nearest[i - 1].distance > distance; i--) {
+    [nearest[i - 1], nearest[i]] = [nearest[i], nearest[i - 1]];
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview A compact binary format for the built-in embeddings, loaded
+ * lazily instead of being bundled with the app.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Where the packed built-in embeddings are served from.
+ */
+export const PACKED_EMBEDDINGS_PATH = 'embeddings.bin';
+
+// The format starts with a header of little-endian 32-bit fields:
+//
+//   magic      "SDJE"
+//   version    PACKED_EMBEDDINGS_VERSION
+//   dimensions the length of every embedding
+//   count      the number of embeddings
+//
+// followed by a count x dimensions Float32 matrix in row-major order, and the
+// labels of the rows as a UTF-8 JSON array.
+const MAGIC = 'SDJE';
+const PACKED_EMBEDDINGS_VERSION = 1;
+const HEADER_BYTES = 16;
+
+/**
+ * Packs labeled embeddings, which must all have the same number of
+ * dimensions.
+ */
+export function packEmbeddings(embeddings: {
+  [label: string]: number[];
+}): Uint8Array {
+  const entries = Object.entries(embeddings);
+  const dimensions = entries[0]?.[1].length ?? 0;
+  const matrixBytes = entries.length * dimensions * 4;
+  const labels = new TextEncoder().encode(
+    JSON.stringify(entries.map(([label]) => label)),
+  );
+
+  const bytes = new Uint8Array(HEADER_BYTES + matrixBytes + labels.length);
+  const view = new DataView(bytes.buffer);
+  bytes.set(new TextEncoder().encode(MAGIC), 0);
+  view.setUint32(4, PACKED_EMBEDDINGS_VERSION, true);
+  view.setUint32(8, dimensions, true);
+  view.setUint32(12, entries.length, true);
+  for (const [i, [label, vector]] of entries.entries()) {
+    if (vector.length !== dimensions) {
+      throw new Error(
+        `The embedding of "${label}" has ${vector.length} dimensions, expected ${dimensions}.`,
+      );
+    }
+    for (const [d, value] of vector.entries()) {
+      view.setFloat32(HEADER_BYTES + (i * dimensions + d) * 4, value, true);
+    }
+  }
+  bytes.set(labels, HEADER_BYTES + matrixBytes);
+  return bytes;
+}
+
+/**
+ * Unpacks embeddings packed with `packEmbeddings`.
+ *
+ * @throws If the buffer is not a supported version of the format.
+ */
+export function unpackEmbeddings(buffer: ArrayBuffer): Map<string, number[]> {
+  // Check the length first, as shorter files have no magic to read.
+  if (
+    buffer.byteLength < HEADER_BYTES ||
+    new TextDecoder().decode(new Uint8Array(buffer, 0, 4)) !== MAGIC
+  ) {
+    throw new Error('The file does not contain packed embeddings.');
+  }
+  const view = new DataView(buffer);
+  const version = view.getUint32(4, true);
+  if (version !== PACKED_EMBEDDINGS_VERSION) {
+    throw new Error(`Unsupported packed embeddings version ${version}.`);
+  }
+  const dimensions = view.getUint32(8, true);
+  const count = view.getUint32(12, true);
+  const labelsOffset = HEADER_BYTES + count * dimensions * 4;
+  if (buffer.byteLength < labelsOffset) {
+    throw new Error('The packed embeddings are truncated.');
+  }
+  const labels: unknown = JSON.parse(
+    new TextDecoder().decode(new Uint8Array(buffer, labelsOffset)),
+  );
+  if (!Array.isArray(labels) || labels.length !== count) {
+    throw new Error('The packed embeddings have invalid labels.');
+  }
+
+  const embeddings = new Map<string, number[]>();
+  for (const [i, label] of labels.entries()) {
+    const vector: number[] = [];
+    for (let d = 0; d < dimensions; d++) {
+      const offset = HEADER_BYTES + (i * dimensions + d) * 4;
+      vector.push(view.getFloat32(offset, true));
+    }
+    embeddings.set(String(label), vector);
+  }
+  return embeddings;
+}
+
+/**
+ * Fetches and unpacks the built-in embeddings.
+ *
+ * @throws If the embeddings cannot be fetched or unpacked.
+ */
+export async function fetchPackedEmbeddings(
+  url = PACKED_EMBEDDINGS_PATH,
+): Promise<Map<string, number[]>> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}.`);
+  }
+  return unpackEmbeddings(await response.arrayBuffer());
+}
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Plays streamed 16-bit PCM chunks from an AudioWorklet.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {loadWorkletModule, type AudioWorkletScope} from './worklet';
+
+const PROCESSOR_NAME = 'pcm-player';
+
+/**
+ * Runs in the AudioWorkletGlobalScope. It is serialized with `toString()` and
+ * loaded from a Blob URL, so it must not reference anything outside its body.
+ *
+ * The processor keeps a ring buffer indexed by absolute frame on the audio
+ * context clock. Chunks are converted from interleaved Int16 and written at
+ * the frame they are scheduled for, so gaps play as silence and overlapping
+ * chunks are crossfaded.
+ */
+function pcmPlayerWorklet(scope: AudioWorkletScope) {
+  const BUFFER_SECONDS = 16;
+
+  class PcmPlayerProcessor extends scope.AudioWorkletProcessor {
+    private readonly capacity = BUFFER_SECONDS * scope.sampleRate;
+    private readonly channels: Float32Array[];
+    private lastWrittenFrame = 0;
+    private isStopped = false;
+
+    constructor(options: {processorOptions: {numChannels: number}}) {
+      super();
+      const {numChannels} = options.processorOptions;
+      this.channels = [];
+      for (let c = 0; c < numChannels; c++) {
+        this.channels.push(new Float32Array(this.capacity));
+      }
+      this.port.onmessage = (e: MessageEvent) => {
+        const message = e.data;
+        if (message.type === 'chunk') {
+          this.write(message.pcm, message.frame, message.crossfadeFrames);
+        } else if (message.type === 'flush') {
+          this.flush(message.frame);
+        } else if (message.type === 'stop') {
+          this.isStopped = true;
+          this.port.close();
+        }
+      };
+    }
+
+    private write(pcm: Int16Array, frame: number, crossfadeFrames: number) {
+      const numChannels = this.channels.length;
+      const length = pcm.length / numChannels;
+      // Frames that are already played or too far ahead to fit are skipped.
+      const first = Math.max(0, scope.currentFrame - frame);
+      const last = Math.min(length, scope.currentFrame + this.capacity - frame);
+      for (let i = first; i < last; i++) {
+        const index = (frame + i) % this.capacity;
+        const fade = i < crossfadeFrames ? i / crossfadeFrames : 1;
+        for (let c = 0; c < numChannels; c++) {
+          const sample = pcm[i * numChannels + c] / 32768.0;
+          const existing = this.channels[c][index] * (1 - fade);
+          this.channels[c][index] = existing + sample * fade;
+        }
+      }
+      this.lastWrittenFrame = Math.max(this.lastWrittenFrame, frame + last);
+    }
+
+    private flush(frame: number) {
+      const from = Math.max(frame, scope.currentFrame);
+      for (let f = from; f < this.lastWrittenFrame; f++) {
+        const index = f % this.capacity;
+        for (const channel of this.channels) {
+          channel[index] = 0;
+        }
+      }
+    }
+
+    process(_inputs: Float32Array[][], outputs: Float32Array[][]) {
+      // Let the node be collected, with its buffers.
+      if (this.isStopped) {
+        return false;
+      }
+      const output = outputs[0];
+      const frames = output[0].length;
+      for (let i = 0; i < frames; i++) {
+        const index = (scope.currentFrame + i) % this.capacity;
+        for (const [c, channel] of this.channels.entries()) {
+          if (output[c]) {
+            output[c][i] = channel[index];
+          }
+          channel[index] = 0;
+        }
+      }
+      return true;
+    }
+  }
+
+  scope.registerProcessor('pcm-player', PcmPlayerProcessor);
+}
+
+/**
+ * Plays interleaved 16-bit PCM chunks at scheduled times on the audio context
+ * clock, converting them off the main thread.
+ */
+export class PcmPlayer {
+  private node: AudioWorkletNode | null = null;
+  private isDisposed = false;
+  /** Resolves once the worklet is loaded and the player is connected. */
+  readonly ready: Promise<void>;
+
+  constructor(
+    private readonly audioContext: AudioContext,
+    destination: AudioNode,
+    private readonly numChannels = 2,
+  ) {
+    this.ready = this.init(destination);
+  }
+
+  private async init(destination: AudioNode) {
+    await loadWorkletModule(
+      this.audioContext,
+      PROCESSOR_NAME,
+      pcmPlayerWorklet,
+    );
+    if (this.isDisposed) {
+      return;
+    }
+    this.node = new AudioWorkletNode(this.audioContext, PROCESSOR_NAME, {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [this.numChannels],
+      processorOptions: {numChannels: this.numChannels},
+    });
+    this.node.connect(destination);
+  }
+
+  /**
+   * Returns the duration in seconds of an interleaved PCM chunk.
+   */
+  getDuration(pcm: Int16Array): number {
+    return pcm.length / this.numChannels / this.audioContext.sampleRate;
+  }
+
+  /**
+   * Schedules a chunk to play. Ownership of the chunk's buffer is transferred
+   * to the worklet, so it must not be used afterwards.
+   *
+   * @param pcm The interleaved 16-bit PCM data.
+   * @param startTime The audio context time at which the chunk starts playing.
+   * @param crossfadeDuration The length of the crossfade with audio already
+   *    scheduled at that time.
+   */
+  enqueue(pcm: Int16Array, startTime: number, crossfadeDuration: number) {
+    const sampleRate = this.audioContext.sampleRate;
+    this.node?.port.postMessage(
+      {
+        type: 'chunk',
+        pcm,
+        frame: Math.round(startTime * sampleRate),
+        crossfadeFrames: Math.round(crossfadeDuration * sampleRate),
+      },
+      [pcm.buffer],
+    );
+  }
+
+  /**
+   * Discards all audio scheduled to play from the given time onwards.
+   *
+   * @param when The audio context time from which to discard audio.
+   */
+  flush(when: number) {
+    this.node?.port.postMessage({
+      type: 'flush',
+      frame: Math.round(when * this.audioContext.sampleRate),
+    });
+  }
+
+  /**
+   * Stops the worklet and disconnects it, so it stops running and its buffers
+   * can be released.
+   */
+  dispose() {
+    this.isDisposed = true;
+    if (!this.node) {
+      return;
+    }
+    this.node.port.postMessage({type: 'stop'});
+    this.node.port.close();
+    this.node.disconnect();
+    this.node = null;
+  }
+}
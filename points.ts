@@ -1,24 +1,19 @@
 /**
- * @fileoverview Manages high-dimensional embeddings, UMAP, point cloud data generation, and the visual point cloud in the THREE.js scene.
+ * @fileoverview Manages high-dimensional embeddings, projections, point cloud data generation, and the visual point cloud in the THREE.js scene.
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
 
 import * as THREE from 'three';
 import {CSS2DObject} from 'three/examples/jsm/renderers/CSS2DRenderer.js';
-import {UMAP} from 'umap-js';
+import {type Cluster} from './clustering';
 import {SpatialGrid} from './grid';
 import {LabelRenderer} from './labels';
-import {cosineDistance} from './utils';
-
-/**
- * Parameters for UMAP.
- */
-export interface UmapParameters {
-  nNeighbors: number;
-  minDist: number;
-  spread: number;
-}
+import {type LayoutCache, type LayoutKey} from './layout_cache';
+import {NeighborIndex} from './neighbor_index';
+import {fitLayout, type ProjectionSettings} from './projection';
+import {Projector} from './projector';
+import {createRandomStream} from './utils';
 
 /**
  * Represents a point in the 3D space with its associated data.
@@ -29,29 +24,22 @@ export interface PointCloudData {
   highDimVector: number[];
   index: number;
 }
-// Returns a pseudorandom number generator function based on the given seed.
-// This is a simple implementation of the mulberry32 function that produces
-// numbers uniformly distributed between 0 and 1.
-function mulberry32(seed: number) {
-  return function(): number {
-    var t = seed += 0x6D2B79F5;
-    t = Math.imul(t ^ t >>> 15, t | 1);
-    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
-    return ((t ^ t >>> 14) >>> 0) / 4294967296;
-  }
-}
 
 /**
  * Manages embeddings, UMAP, and the generation of point cloud data for visualization.
  */
 export class PointCloudGenerator {
   private readonly rngFn: () => number;
+  private readonly projector = new Projector();
+  // Counts calls, so a call can tell when a later one cancelled it.
+  private requestCount = 0;
 
   constructor(
     private readonly embeddingsCache: Map<string, number[]>,
     readonly rngSeed: number,
+    private readonly layoutCache: LayoutCache | null = null,
   ) {
-    this.rngFn = mulberry32(rngSeed);
+    this.rngFn = createRandomStream(rngSeed, 'layout');
   }
 
   private shuffleEmbeddings(embeddings: Array<[string, number[]]>) {
@@ -67,19 +55,48 @@ export class PointCloudGenerator {
    * @param pointCount The number of points to generate.
    * @param embeddingDimensions The number of dimensions in the embedding.
    * @param randomizeEmbeddings Whether to randomize the embeddings.
-   * @param umapParameters The parameters for UMAP.
+   * @param randomizePoints Whether to place the points at random, as a null
+   *     model of the layout.
+   * @param randomPointsRadius The radius of the sphere random points fill.
+   * @param projection The projection method and its parameters.
    * @param currentSelectedEmbeddings The current selected embeddings.
-   * @return The point cloud data and the selected embeddings.
+   * @param onProgress Called with the fraction of the projection done.
+   * @return The point cloud data and the selected embeddings, or null if a
+   *     later call cancelled this one.
+   * @throws If the projection fails, e.g. precomputed coordinates cover none
+   *     of the embeddings.
    */
-  generatePointCloudData(
+  async generatePointCloudData(
     pointCount: number,
     embeddingDimensions: number,
     randomizeEmbeddings: boolean,
-    umapParameters: UmapParameters,
+    randomizePoints: boolean,
+    randomPointsRadius: number,
+    projection: ProjectionSettings,
     currentSelectedEmbeddings: Array<[string, number[]]> = [],
-  ): {data: PointCloudData[]; selectedEmbeddings: Array<[string, number[]]>} {
-    const allEmbeddings = Array.from(this.embeddingsCache.entries());
-    let selectedEmbeddings = [...currentSelectedEmbeddings];
+    onProgress: (progress: number) => void = () => {},
+  ): Promise<{
+    data: PointCloudData[];
+    selectedEmbeddings: Array<[string, number[]]>;
+  } | null> {
+    const coordinates =
+      projection.method === 'precomputed'
+        ? projection.precomputed.coordinates
+        : null;
+    if (projection.method === 'precomputed' && !coordinates) {
+      throw new Error('Load coordinates for the precomputed projection.');
+    }
+    // Only embeddings with precomputed coordinates can be placed.
+    const hasPosition = ([label]: [string, number[]]) =>
+      !coordinates || coordinates.has(label);
+    const allEmbeddings = Array.from(this.embeddingsCache.entries()).filter(
+      hasPosition,
+    );
+    if (allEmbeddings.length === 0) {
+      throw new Error('None of the embeddings have precomputed coordinates.');
+    }
+
+    let selectedEmbeddings = currentSelectedEmbeddings.filter(hasPosition);
 
     // Shuffle to get a random subset if needed.
     if (selectedEmbeddings.length === 0) {
@@ -100,13 +117,46 @@ export class PointCloudGenerator {
       selectedEmbeddings.push(...newEmbeddings);
     }
 
+    // Reuse the layout of the same points with the same seed and settings,
+    // unless it only looks coordinates up or places the points at random.
+    const layoutKey: LayoutKey | null =
+      this.layoutCache && !coordinates && !randomizePoints
+        ? {
+            embeddings: this.embeddingsCache,
+            rngSeed: this.rngSeed,
+            pointCount,
+            labels: selectedEmbeddings.map(([label]) => label),
+            method: projection.method,
+            parameters: projection[projection.method],
+            randomizeEmbeddings,
+          }
+        : null;
+    const request = ++this.requestCount;
+    const cached = layoutKey ? await this.layoutCache!.get(layoutKey) : null;
+    if (request !== this.requestCount) {
+      return null;
+    }
+    if (cached) {
+      return {
+        data: createPointCloudData(
+          cached.labels,
+          cached.vectors ??
+            selectedEmbeddings.map(([, embedding]) => embedding),
+          cached.positions,
+        ),
+        selectedEmbeddings,
+      };
+    }
+
     const highDimData: number[][] = [];
     const labels: string[] = [];
+    // Draw the same random embeddings for the same seed and points.
+    const random = createRandomStream(this.rngSeed, 'embeddings');
     for (const [label, embedding] of selectedEmbeddings) {
       if (randomizeEmbeddings) {
         const randomEmbedding: number[] = [];
         for (let d = 0; d < embeddingDimensions; d++) {
-          randomEmbedding.push(Math.random() * 2 - 1);
+          randomEmbedding.push(random() * 2 - 1);
         }
         highDimData.push(randomEmbedding);
       } else {
@@ -115,63 +165,116 @@ export class PointCloudGenerator {
       labels.push(label);
     }
 
-    // Reduce dimensionality
-    const umap = new UMAP({
-      nComponents: 3,
-      nNeighbors: umapParameters.nNeighbors,
-      minDist: umapParameters.minDist,
-      spread: umapParameters.spread,
-      distanceFn: cosineDistance,
-      random: this.rngFn,
-    });
-    const embeddings3D: number[][] = umap.fit(highDimData);
+    let embeddings3D: number[][] | null;
+    if (randomizePoints) {
+      embeddings3D = this.placeRandomly(labels.length, randomPointsRadius);
+    } else if (coordinates) {
+      embeddings3D = this.placePrecomputed(
+        labels,
+        coordinates,
+        projection.precomputed.normalize,
+      );
+    } else {
+      embeddings3D = await this.project(highDimData, projection, onProgress);
+    }
+    if (!embeddings3D) {
+      return null;
+    }
+    if (layoutKey) {
+      void this.layoutCache!.put(layoutKey, {
+        labels,
+        positions: embeddings3D,
+        vectors: randomizeEmbeddings ? highDimData : null,
+      });
+    }
 
-    const pointCloudData: PointCloudData[] = embeddings3D.map((pos, i) => ({
-      position: new THREE.Vector3(pos[0] * 10, pos[1] * 10, pos[2] * 10),
-      label: labels[i],
-      highDimVector: highDimData[i],
-      index: i,
-    }));
+    return {
+      data: createPointCloudData(labels, highDimData, embeddings3D),
+      selectedEmbeddings,
+    };
+  }
 
-    return {data: pointCloudData, selectedEmbeddings};
+  // Reduces dimensionality in a worker.
+  private async project(
+    data: number[][],
+    projection: ProjectionSettings,
+    onProgress: (progress: number) => void,
+  ): Promise<number[][] | null> {
+    // Seed from a stream of its own, so the layout depends only on the seed
+    // and the points, as the layout cache assumes.
+    const seed = Math.floor(
+      createRandomStream(this.rngSeed, 'projection')() * 2 ** 32,
+    );
+    if (projection.method === 'pca') {
+      return this.projector.project(
+        {data, seed, method: 'pca', parameters: projection.pca},
+        onProgress,
+      );
+    }
+    if (projection.method === 'tsne') {
+      return this.projector.project(
+        {data, seed, method: 'tsne', parameters: projection.tsne},
+        onProgress,
+      );
+    }
+    const embedding = await this.projector.project(
+      {data, seed, method: 'umap', parameters: projection.umap},
+      onProgress,
+    );
+    return embedding?.map((pos) => pos.map((value) => value * 10)) ?? null;
+  }
+
+  // Looks up the coordinates of the labels, placing 2D layouts on a plane.
+  private placePrecomputed(
+    labels: string[],
+    coordinates: Map<string, number[]>,
+    normalize: boolean,
+  ): number[][] {
+    const positions = labels.map((label) => {
+      const [x = 0, y = 0, z = 0] = coordinates.get(label)!;
+      return [x, y, z];
+    });
+    return normalize ? fitLayout(positions) : positions;
+  }
+
+  // Places the points uniformly at random in a sphere, the same way for the
+  // same seed.
+  private placeRandomly(count: number, radius: number): number[][] {
+    const random = createRandomStream(this.rngSeed, 'points');
+    return Array.from({length: count}, () => {
+      const position = new THREE.Vector3();
+      do {
+        position.set(random() * 2 - 1, random() * 2 - 1, random() * 2 - 1);
+      } while (position.lengthSq() > 1);
+      return position.multiplyScalar(radius).toArray();
+    });
   }
 
   /**
-   * Finds the high dimensional neighbors of the primary vectors.
-   *
-   * @param primaryVectors The primary vectors to find neighbors for.
-   * @param allVectors The all vectors to find neighbors from.
-   * @param neighborRadius The radius of the neighbors to find.
-   * @return A map of the index of the neighbors to the distance to the primary
-   * vector.
+   * Stops generating point cloud data, e.g. before switching embeddings.
    */
-  findHighDimensionalNeighbors(
-    primaryVectors: number[][],
-    allVectors: number[][],
-    neighborRadius: number,
-  ): Map<number, number> {
-    const neighborDistances = new Map<number, number>();
-
-    for (const primaryVector of primaryVectors) {
-      for (const [i, pointVector] of allVectors.entries()) {
-        if (primaryVectors === allVectors && primaryVector === pointVector) {
-          continue;
-        }
-        const distance = cosineDistance(primaryVector, pointVector);
-        if (distance <= neighborRadius) {
-          const existingDistance = neighborDistances.get(i);
-          if (existingDistance === undefined || distance < existingDistance) {
-            neighborDistances.set(i, distance);
-          }
-        }
-      }
-    }
-    return neighborDistances;
+  cancel() {
+    this.requestCount++;
+    this.projector.cancel();
   }
 }
 
+function createPointCloudData(
+  labels: string[],
+  highDimData: number[][],
+  positions: number[][],
+): PointCloudData[] {
+  return positions.map((pos, i) => ({
+    position: new THREE.Vector3(pos[0], pos[1], pos[2]),
+    label: labels[i],
+    highDimVector: highDimData[i],
+    index: i,
+  }));
+}
+
 const DEFAULT_COLOR = new THREE.Color(0x6e6e78); // Medium Gray
 const DEFAULT_INTENSITY = 0.1;
+const TRANSITION_DURATION = 1.5; // Seconds
 
 /**
  * Manages the THREE.js objects representing the embeddings in the scene.
@@ -180,11 +283,21 @@ export class PointCloud {
   private pointsGroup: THREE.Group | null = null;
   private pointMeshes: THREE.Mesh[] = [];
   private readonly spatialGrid: SpatialGrid;
+  private readonly neighborIndex: NeighborIndex;
   private readonly labelRenderer: LabelRenderer;
+  private clusterLabels: CSS2DObject[] = [];
+  // The points moving from their previous positions, and when they started.
+  private transition: {
+    fromPositions: Array<THREE.Vector3 | null>;
+    startTime: number;
+  } | null = null;
 
   constructor(private readonly pointCloudData: PointCloudData[]) {
     this.createMeshes();
     this.spatialGrid = new SpatialGrid(this.pointMeshes);
+    this.neighborIndex = new NeighborIndex(
+      pointCloudData.map((pointData) => pointData.highDimVector),
+    );
     this.labelRenderer = new LabelRenderer(this.pointMeshes);
   }
 
@@ -222,6 +335,158 @@ export class PointCloud {
     }
   }
 
+  /**
+   * Colors the points by cluster and labels the visible clusters. Points
+   * outside visible clusters return to the default color.
+   *
+   * @param clusters The clusters of the points.
+   * @param highlightedObjects The highlighted points, which keep their color
+   *     until the highlights are reset.
+   */
+  setClusters(clusters: Cluster[], highlightedObjects: THREE.Mesh[]): void {
+    for (const label of this.clusterLabels) {
+      this.pointsGroup?.remove(label);
+      label.element.remove();
+    }
+    this.clusterLabels = [];
+
+    const colors = new Map<number, THREE.Color>();
+    for (const cluster of clusters) {
+      if (!cluster.visible) {
+        continue;
+      }
+      const center = new THREE.Vector3();
+      for (const i of cluster.members) {
+        colors.set(i, cluster.color);
+        center.add(this.pointCloudData[i].position);
+      }
+      center.divideScalar(cluster.members.length);
+
+      const labelDiv = document.createElement('div');
+      labelDiv.className = 'cluster-label';
+      labelDiv.textContent = cluster.name;
+      labelDiv.style.color = `#${cluster.color.getHexString()}`;
+      const label = new CSS2DObject(labelDiv);
+      label.position.copy(center);
+      this.pointsGroup?.add(label);
+      this.clusterLabels.push(label);
+    }
+
+    for (const [i, mesh] of this.pointMeshes.entries()) {
+      const color = colors.get(i) ?? DEFAULT_COLOR;
+      mesh.userData.baseColor = color;
+      if (!highlightedObjects.includes(mesh)) {
+        const material = mesh.material as THREE.MeshStandardMaterial;
+        material.color.set(color);
+        material.emissive.set(color);
+      }
+    }
+  }
+
+  /**
+   * Returns the box around the points once they are in place.
+   */
+  getBoundingBox(): THREE.Box3 {
+    return new THREE.Box3().setFromPoints(
+      this.pointCloudData.map(({position}) => position),
+    );
+  }
+
+  /**
+   * Colors the points like the points with the same labels in another cloud,
+   * e.g. to show the same highlights and clusters.
+   *
+   * @param source The cloud to copy the colors from.
+   * @param highlightedObjects The highlighted points of the source.
+   * @return The points matching the highlighted points.
+   */
+  copyColors(
+    source: PointCloud,
+    highlightedObjects: THREE.Mesh[],
+  ): THREE.Mesh[] {
+    const sourceMeshes = new Map(
+      source.getPointMeshes().map((mesh) => [mesh.userData.label, mesh]),
+    );
+    const highlighted = new Set(highlightedObjects);
+    const matches: THREE.Mesh[] = [];
+    for (const mesh of this.pointMeshes) {
+      const sourceMesh = sourceMeshes.get(mesh.userData.label);
+      if (!sourceMesh) {
+        continue;
+      }
+      const material = mesh.material as THREE.MeshStandardMaterial;
+      const sourceMaterial = sourceMesh.material as THREE.MeshStandardMaterial;
+      material.color.copy(sourceMaterial.color);
+      material.emissive.copy(sourceMaterial.emissive);
+      material.emissiveIntensity = sourceMaterial.emissiveIntensity;
+      if (highlighted.has(sourceMesh)) {
+        matches.push(mesh);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Returns the current positions of the points by label.
+   */
+  getPositions(): Map<string, THREE.Vector3> {
+    return new Map(
+      this.pointMeshes.map((mesh) => [
+        mesh.userData.label as string,
+        mesh.parent!.position.clone(),
+      ]),
+    );
+  }
+
+  /**
+   * Moves the points from their previous positions to their own over a moment.
+   * Points that had no previous position grow in place.
+   *
+   * @param previousPositions The previous positions by label.
+   */
+  startTransition(previousPositions: Map<string, THREE.Vector3>): void {
+    this.transition = {
+      fromPositions: this.pointCloudData.map(
+        ({label}) => previousPositions.get(label) ?? null,
+      ),
+      startTime: performance.now(),
+    };
+    this.updateTransition();
+  }
+
+  /**
+   * Moves the points along the transition, if one is running.
+   *
+   * @return Whether the points moved.
+   */
+  updateTransition(): boolean {
+    if (!this.transition) {
+      return false;
+    }
+    const {fromPositions, startTime} = this.transition;
+    const progress = Math.min(
+      (performance.now() - startTime) / (TRANSITION_DURATION * 1000),
+      1,
+    );
+    const eased = THREE.MathUtils.smoothstep(progress, 0, 1);
+    for (const [i, mesh] of this.pointMeshes.entries()) {
+      const pointObject = mesh.parent!;
+      const toPosition = this.pointCloudData[i].position;
+      const fromPosition = fromPositions[i];
+      if (fromPosition) {
+        pointObject.position.lerpVectors(fromPosition, toPosition, eased);
+      } else {
+        mesh.scale.setScalar(eased);
+      }
+    }
+    // Keep picking in step with the moving points.
+    this.spatialGrid.build(this.pointMeshes);
+    if (progress === 1) {
+      this.transition = null;
+    }
+    return true;
+  }
+
   /**
    * Returns the point meshes.
    */
@@ -244,6 +509,22 @@ export class PointCloud {
     return this.spatialGrid.query(position, radius);
   }
 
+  /**
+   * Finds the points within a cosine distance of the primary points in the
+   * high dimensional space, including the primary points themselves.
+   *
+   * @param primaryIndices The indices of the primary points.
+   * @param neighborRadius The radius of the neighbors to find.
+   * @return A map of the index of the neighbors to the distance to the nearest
+   *     primary point.
+   */
+  findHighDimensionalNeighbors(
+    primaryIndices: number[],
+    neighborRadius: number,
+  ): Map<number, number> {
+    return this.neighborIndex.findWithinRadius(primaryIndices, neighborRadius);
+  }
+
   /**
    * Resets state and releases resources.
    */
@@ -267,6 +548,8 @@ export class PointCloud {
       });
       this.pointsGroup = null;
     }
+    this.clusterLabels = [];
+    this.transition = null;
     this.pointMeshes = [];
     this.spatialGrid.clear();
     this.labelRenderer.dispose();
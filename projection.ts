@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Methods projecting high dimensional embeddings to 3D.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The RMS distance of the points from their center in layouts rescaled to fit
+// the space, about that of a UMAP layout.
+const LAYOUT_RADIUS = 18;
+const PCA_MAX_ITERATIONS = 200;
+const PCA_TOLERANCE = 1e-9;
+
+/**
+ * How the embeddings are laid out in 3D.
+ */
+export type ProjectionMethod = 'umap' | 'pca' | 'tsne' | 'precomputed';
+
+export const PROJECTION_METHOD_LABELS: {[key in ProjectionMethod]: string} = {
+  umap: 'UMAP',
+  pca: 'PCA',
+  tsne: 't-SNE',
+  precomputed: 'Precomputed',
+};
+
+/**
+ * Parameters for UMAP.
+ */
+export interface UmapParameters {
+  nNeighbors: number;
+  minDist: number;
+  spread: number;
+}
+
+/**
+ * Parameters for PCA.
+ */
+export interface PcaParameters {
+  /** Whether to scale the vectors to unit length first, as cosine distance. */
+  normalize: boolean;
+  /** Whether to give the three components the same variance. */
+  whiten: boolean;
+}
+
+/**
+ * Parameters for t-SNE.
+ */
+export interface TsneParameters {
+  /** The effective number of neighbors of each point. */
+  perplexity: number;
+  learningRate: number;
+  iterations: number;
+}
+
+/**
+ * Parameters for coordinates loaded from a file.
+ */
+export interface PrecomputedParameters {
+  /** Coordinates by label, with two or three dimensions. */
+  coordinates: Map<string, number[]> | null;
+  /** Whether to rescale the coordinates to fit the space. */
+  normalize: boolean;
+}
+
+/**
+ * The projection method and the parameters of every method.
+ */
+export interface ProjectionSettings {
+  method: ProjectionMethod;
+  umap: UmapParameters;
+  pca: PcaParameters;
+  tsne: TsneParameters;
+  precomputed: PrecomputedParameters;
+}
+
+/**
+ * A request to project high dimensional vectors to 3D in a worker.
+ */
+export type ProjectionRequest = {
+  data: number[][];
+  /** Seeds the random number generator of the projection. */
+  seed: number;
+} & (
+  | {method: 'umap'; parameters: UmapParameters}
+  | {method: 'pca'; parameters: PcaParameters}
+  | {method: 'tsne'; parameters: TsneParameters}
+);
+
+/**
+ * A message from the worker: the fraction of the projection done, or the
+ * projection.
+ */
+export type ProjectionResponse =
+  | {type: 'progress'; progress: number}
+  | {type: 'result'; embedding: number[][]}
+  | {type: 'error'; message: string};
+
+/**
+ * Scales vectors to unit length, leaving zero vectors as they are.
+ */
+export function normalizeVectors(data: number[][]): number[][] {
+  return data.map((vector) => {
+    const length = Math.hypot(...vector);
+    return length === 0 ? vector : vector.map((value) => value / length);
+  });
+}
+
+/**
+ * Projects vectors on their three principal components, found by power
+ * iteration.
+ */
+export function projectPca(
+  data: number[][],
+  parameters: PcaParameters,
+  random: () => number,
+): number[][] {
+  const vectors = parameters.normalize ? normalizeVectors(data) : data;
+  const dimensions = vectors[0]?.length ?? 0;
+  const mean = new Array<number>(dimensions).fill(0);
+  for (const vector of vectors) {
+    for (let d = 0; d < dimensions; d++) {
+      mean[d] += vector[d] / vectors.length;
+    }
+  }
+  const centered = vectors.map((vector) =>
+    vector.map((value, d) => value - mean[d]),
+  );
+
+  const components: number[][] = [];
+  for (let k = 0; k < Math.min(3, dimensions); k++) {
+    let component = Array.from({length: dimensions}, () => random() - 0.5);
+    for (let i = 0; i < PCA_MAX_ITERATIONS; i++) {
+      // Multiply by the covariance matrix without computing it.
+      const scores = centered.map((vector) => dot(vector, component));
+      let next = new Array<number>(dimensions).fill(0);
+      for (const [j, vector] of centered.entries()) {
+        for (let d = 0; d < dimensions; d++) {
+          next[d] += scores[j] * vector[d];
+        }
+      }
+      // Stay orthogonal to the components found so far.
+      for (const previous of components) {
+        const overlap = dot(next, previous);
+        next = next.map((value, d) => value - overlap * previous[d]);
+      }
+      const length = Math.hypot(...next);
+      if (length === 0) {
+        break;
+      }
+      next = next.map((value) => value / length);
+      const change = next.reduce(
+        (sum, value, d) => sum + (value - component[d]) ** 2,
+        0,
+      );
+      component = next;
+      if (change < PCA_TOLERANCE) {
+        break;
+      }
+    }
+    // Pick a consistent sign, so layouts do not flip between renders.
+    const largest = component.reduce((a, b) =>
+      Math.abs(b) > Math.abs(a) ? b : a,
+    );
+    components.push(largest < 0 ? component.map((value) => -value) : component);
+  }
+
+  let projected = centered.map((vector) => {
+    const position = components.map((component) => dot(vector, component));
+    while (position.length < 3) {
+      position.push(0);
+    }
+    return position;
+  });
+  if (parameters.whiten) {
+    const deviations = [0, 1, 2].map((axis) =>
+      Math.sqrt(
+        projected.reduce((sum, position) => sum + position[axis] ** 2, 0) /
+          projected.length,
+      ),
+    );
+    projected = projected.map((position) =>
+      position.map((value, axis) =>
+        deviations[axis] === 0 ? 0 : value / deviations[axis],
+      ),
+    );
+  }
+  return projected;
+}
+
+/**
+ * Centers 3D positions and scales them to the size of the space.
+ */
+export function fitLayout(positions: number[][]): number[][] {
+  if (positions.length === 0) {
+    return positions;
+  }
+  const center = [0, 1, 2].map(
+    (axis) =>
+      positions.reduce((sum, position) => sum + (position[axis] ?? 0), 0) /
+      positions.length,
+  );
+  const centered = positions.map((position) =>
+    center.map((value, axis) => (position[axis] ?? 0) - value),
+  );
+  const rms = Math.sqrt(
+    centered.reduce((sum, position) => sum + dot(position, position), 0) /
+      centered.length,
+  );
+  const scale = rms === 0 ? 1 : LAYOUT_RADIUS / rms;
+  return centered.map((position) => position.map((value) => value * scale));
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
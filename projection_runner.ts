@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Runs a projection step by step, reporting progress. Used by
+ * the projection worker, and on the main thread when the worker cannot load.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {UMAP} from 'umap-js';
+import {fitLayout, projectPca, type ProjectionRequest} from './projection';
+import {Tsne} from './tsne';
+import {cosineDistance, mulberry32} from './utils';
+
+// The least time between progress reports, in ms.
+const PROGRESS_INTERVAL = 100;
+
+// Runs the steps of an iterative fit, reporting progress as it goes.
+function runSteps(
+  count: number,
+  step: () => void,
+  onProgress: (progress: number) => void,
+) {
+  let lastProgressTime = performance.now();
+  for (let i = 0; i < count; i++) {
+    step();
+    const now = performance.now();
+    if (now - lastProgressTime >= PROGRESS_INTERVAL) {
+      lastProgressTime = now;
+      onProgress((i + 1) / count);
+    }
+  }
+}
+
+/**
+ * Projects the vectors, rescaling the layouts other than UMAP to fit the
+ * space.
+ *
+ * @param onProgress Called with the fraction of the fit done.
+ * @return The 3D positions.
+ */
+export function runProjection(
+  request: ProjectionRequest,
+  onProgress: (progress: number) => void,
+): number[][] {
+  const random = mulberry32(request.seed);
+  if (request.method === 'pca') {
+    return fitLayout(projectPca(request.data, request.parameters, random));
+  }
+  if (request.method === 'tsne') {
+    const tsne = new Tsne(request.data, request.parameters, random);
+    runSteps(
+      tsne.getIterationCount(),
+      () => {
+        tsne.step();
+      },
+      onProgress,
+    );
+    return fitLayout(tsne.getEmbedding());
+  }
+  const umap = new UMAP({
+    nComponents: 3,
+    nNeighbors: request.parameters.nNeighbors,
+    minDist: request.parameters.minDist,
+    spread: request.parameters.spread,
+    distanceFn: cosineDistance,
+    random,
+  });
+  runSteps(
+    umap.initializeFit(request.data),
+    () => {
+      umap.step();
+    },
+    onProgress,
+  );
+  return umap.getEmbedding();
+}
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Web Worker projecting embeddings to 3D step by step and
+ * reporting progress.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {type ProjectionRequest, type ProjectionResponse} from './projection';
+import {runProjection} from './projection_runner';
+
+function respond(response: ProjectionResponse) {
+  self.postMessage(response);
+}
+
+self.onmessage = (e: MessageEvent<ProjectionRequest>) => {
+  respond({type: 'progress', progress: 0});
+  try {
+    const embedding = runProjection(e.data, (progress) => {
+      respond({type: 'progress', progress});
+    });
+    respond({type: 'result', embedding});
+  } catch (e) {
+    respond({type: 'error', message: e.message});
+  }
+};
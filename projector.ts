@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Runs projections in a Web Worker, so the UI stays responsive
+ * while the layout is computed.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {type ProjectionRequest, type ProjectionResponse} from './projection';
+import {runProjection} from './projection_runner';
+
+/**
+ * Projects vectors to 3D in a Web Worker, one projection at a time. If the
+ * worker cannot load, e.g. when served without a build step, where module
+ * workers do not see the import map, projects on the main thread instead.
+ */
+export class Projector {
+  private worker: Worker | null = null;
+  private resolveCurrent: ((embedding: number[][] | null) => void) | null =
+    null;
+  private isWorkerUnavailable = false;
+
+  /**
+   * Projects vectors to 3D, cancelling any projection still running.
+   *
+   * @param onProgress Called with the fraction of the fit done.
+   * @return The 3D positions, or null if a later projection cancelled this
+   *     one.
+   * @throws If the projection fails, e.g. UMAP with fewer vectors than
+   *     neighbors.
+   */
+  project(
+    request: ProjectionRequest,
+    onProgress: (progress: number) => void,
+  ): Promise<number[][] | null> {
+    this.cancel();
+    return new Promise((resolve, reject) => {
+      this.resolveCurrent = resolve;
+      if (this.isWorkerUnavailable) {
+        this.projectOnMainThread(request, onProgress, resolve, reject);
+        return;
+      }
+      let worker: Worker;
+      try {
+        worker = new Worker(
+          new URL('./projection_worker.ts', import.meta.url),
+          {
+            type: 'module',
+          },
+        );
+      } catch (e) {
+        // Workers may be blocked, or missing outside the browser.
+        console.warn('Failed to start the projection worker: ', e);
+        this.isWorkerUnavailable = true;
+        this.projectOnMainThread(request, onProgress, resolve, reject);
+        return;
+      }
+      this.worker = worker;
+      // The worker reports progress as soon as it has loaded.
+      let isLoaded = false;
+      worker.onmessage = (e: MessageEvent<ProjectionResponse>) => {
+        isLoaded = true;
+        const response = e.data;
+        if (response.type === 'progress') {
+          onProgress(response.progress);
+          return;
+        }
+        this.finish();
+        if (response.type === 'result') {
+          resolve(response.embedding);
+        } else {
+          reject(new Error(response.message));
+        }
+      };
+      worker.onerror = (e: ErrorEvent) => {
+        if (!isLoaded) {
+          console.warn('Failed to load the projection worker: ', e.message);
+          this.isWorkerUnavailable = true;
+          worker.terminate();
+          this.worker = null;
+          this.projectOnMainThread(request, onProgress, resolve, reject);
+          return;
+        }
+        this.finish();
+        reject(new Error(e.message));
+      };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Stops the projection still running, if any.
+   */
+  cancel() {
+    const resolve = this.resolveCurrent;
+    this.finish();
+    resolve?.(null);
+  }
+
+  // Projects on the main thread, which blocks the page until done, so it
+  // cannot be cancelled once started.
+  private projectOnMainThread(
+    request: ProjectionRequest,
+    onProgress: (progress: number) => void,
+    resolve: (embedding: number[][] | null) => void,
+    reject: (error: Error) => void,
+  ) {
+    onProgress(0);
+    // Let the progress show before the page blocks.
+    setTimeout(() => {
+      if (this.resolveCurrent !== resolve) {
+        return;
+      }
+      try {
+        const embedding = runProjection(request, onProgress);
+        this.finish();
+        resolve(embedding);
+      } catch (e) {
+        this.finish();
+        reject(e);
+      }
+    });
+  }
+
+  private finish() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.resolveCurrent = null;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Merges the prompts from the space with the user's overrides.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {type Prompt} from './prompt_scheduler';
+
+/**
+ * The state of one prompt in the mixer.
+ */
+export interface PromptChannel {
+  text: string;
+  /** The weight the prompt contributes to the mix, before mute and solo. */
+  weight: number;
+  /** Whether the weight was set by hand rather than by the space. */
+  isManualWeight: boolean;
+  /** Whether the prompt stays in the mix wherever the ship is. */
+  pinned: boolean;
+  muted: boolean;
+  soloed: boolean;
+  /** Whether the prompt is part of the mix sent to the session. */
+  audible: boolean;
+}
+
+interface Override {
+  manualWeight: number | null;
+  pinned: boolean;
+  muted: boolean;
+  soloed: boolean;
+}
+
+/**
+ * Combines the weights selected by flying through the space with per-prompt
+ * overrides: a manual weight, pin, mute and solo.
+ *
+ * Pinned prompts stay in the mix when the space no longer selects them, so a
+ * base genre can be held while flying around for color. Overrides of prompts
+ * that are neither selected nor pinned are dropped.
+ */
+export class PromptMixer {
+  private spaceWeights = new Map<string, number>();
+  private overrides = new Map<string, Override>();
+
+  /**
+   * Sets the weights currently selected in the space.
+   */
+  setSpaceWeights(weights: Map<string, number>) {
+    this.spaceWeights = new Map(weights);
+    this.pruneOverrides();
+  }
+
+  /**
+   * Sets the weight of a prompt by hand, overriding the space.
+   */
+  setWeight(text: string, weight: number) {
+    this.getOverride(text).manualWeight = weight;
+  }
+
+  /**
+   * Pins or unpins a prompt. A pinned prompt keeps its current weight.
+   */
+  togglePinned(text: string) {
+    const override = this.getOverride(text);
+    override.pinned = !override.pinned;
+    if (override.pinned && override.manualWeight === null) {
+      override.manualWeight = this.spaceWeights.get(text) ?? 0;
+    } else if (!override.pinned && this.spaceWeights.has(text)) {
+      // Hand the weight back to the space.
+      override.manualWeight = null;
+    }
+    this.pruneOverrides();
+  }
+
+  toggleMuted(text: string) {
+    const override = this.getOverride(text);
+    override.muted = !override.muted;
+  }
+
+  toggleSoloed(text: string) {
+    const override = this.getOverride(text);
+    override.soloed = !override.soloed;
+  }
+
+  /**
+   * Returns all prompts in the mixer, by descending weight.
+   */
+  getChannels(): PromptChannel[] {
+    const texts = new Set([
+      ...this.spaceWeights.keys(),
+      ...this.overrides.keys(),
+    ]);
+    const isAnySoloed = Array.from(this.overrides.values()).some(
+      (o) => o.soloed,
+    );
+    const channels: PromptChannel[] = [];
+    for (const text of texts) {
+      const override = this.overrides.get(text);
+      const weight = override?.manualWeight ?? this.spaceWeights.get(text) ?? 0;
+      const muted = override?.muted ?? false;
+      const soloed = override?.soloed ?? false;
+      channels.push({
+        text,
+        weight,
+        isManualWeight: override?.manualWeight != null,
+        pinned: override?.pinned ?? false,
+        muted,
+        soloed,
+        audible: !muted && (!isAnySoloed || soloed) && weight > 0,
+      });
+    }
+    channels.sort((a, b) => b.weight - a.weight);
+    return channels;
+  }
+
+  /**
+   * Returns the prompts to send to the session.
+   */
+  getMix(): Prompt[] {
+    return this.getChannels()
+      .filter((channel) => channel.audible)
+      .map(({text, weight}) => ({text, weight}));
+  }
+
+  private getOverride(text: string): Override {
+    let override = this.overrides.get(text);
+    if (!override) {
+      override = {
+        manualWeight: null,
+        pinned: false,
+        muted: false,
+        soloed: false,
+      };
+      this.overrides.set(text, override);
+    }
+    return override;
+  }
+
+  private pruneOverrides() {
+    for (const [text, override] of this.overrides) {
+      if (!override.pinned && !this.spaceWeights.has(text)) {
+        this.overrides.delete(text);
+      }
+    }
+  }
+}
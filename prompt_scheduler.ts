@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Sends prompt changes to the session at a limited rate.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A text prompt and its weight in the mix.
+ */
+export interface Prompt {
+  text: string;
+  weight: number;
+}
+
+/**
+ * The easing curve used to morph from one prompt mix to the next.
+ */
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+const EASING_FUNCTIONS: {[key in Easing]: (t: number) => number} = {
+  'linear': (t) => t,
+  'ease-in': (t) => t * t * t,
+  'ease-out': (t) => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': (t) => (1 - Math.cos(Math.PI * t)) / 2,
+};
+
+/**
+ * Options for the prompt scheduler. Times are in milliseconds.
+ */
+export interface PromptSchedulerOptions {
+  /** The minimum time between two sends. */
+  minInterval: number;
+  /** The time to morph from the previous mix to a new one, or 0 to jump. */
+  morphDuration: number;
+  easing: Easing;
+}
+
+const DEFAULT_OPTIONS: PromptSchedulerOptions = {
+  minInterval: 200,
+  morphDuration: 0,
+  easing: 'ease-in-out',
+};
+
+// Weights are compared at this precision when deduplicating sends.
+const WEIGHT_PRECISION = 3;
+
+/**
+ * Sends the latest prompt mix at most once per interval.
+ *
+ * Unlike a throttle, an update that arrives too soon is not dropped: it is
+ * sent on the trailing edge of the interval, so the last mix always reaches
+ * the session. While a morph is in progress, intermediate mixes are sent once
+ * per interval until the target is reached. Mixes identical to the last one
+ * sent are skipped.
+ */
+export class PromptScheduler {
+  private options: PromptSchedulerOptions;
+  // The mix at the start of the current morph, and the mix it morphs to.
+  private fromWeights = new Map<string, number>();
+  private targetWeights = new Map<string, number>();
+  private morphStartTime = 0;
+  private lastSendTime = -Infinity;
+  private lastSentKey: string | null = null;
+  private timerId?: number;
+
+  constructor(
+    private readonly send: (prompts: Prompt[]) => Promise<void>,
+    options: Partial<PromptSchedulerOptions> = {},
+  ) {
+    this.options = {...DEFAULT_OPTIONS, ...options};
+  }
+
+  /**
+   * Updates the morph duration, easing or interval. A morph in progress
+   * continues with the new options.
+   */
+  setOptions(options: Partial<PromptSchedulerOptions>) {
+    this.options = {...this.options, ...options};
+  }
+
+  /**
+   * Sets the prompt mix to send. The morph starts from the mix the session is
+   * currently moving through.
+   *
+   * @return A promise that resolves once the update has been sent, if it is
+   *     sent right away, or immediately if it is sent later.
+   */
+  update(prompts: Prompt[]): Promise<void> {
+    const now = Date.now();
+    this.fromWeights =
+      this.lastSentKey === null ? new Map() : this.getWeightsAt(now);
+    this.targetWeights = new Map(prompts.map((p) => [p.text, p.weight]));
+    this.morphStartTime = now;
+    return this.tick();
+  }
+
+  /**
+   * Forgets the prompts sent so far, so the next update is sent right away
+   * and without a morph, e.g. to a new session.
+   */
+  reset() {
+    window.clearTimeout(this.timerId);
+    this.timerId = undefined;
+    this.fromWeights = new Map();
+    this.targetWeights = new Map();
+    this.lastSendTime = -Infinity;
+    this.lastSentKey = null;
+  }
+
+  private async tick() {
+    window.clearTimeout(this.timerId);
+    this.timerId = undefined;
+
+    const now = Date.now();
+    const wait = this.lastSendTime + this.options.minInterval - now;
+    if (wait > 0) {
+      this.timerId = window.setTimeout(() => void this.tick(), wait);
+      return;
+    }
+
+    const weights = this.getWeightsAt(now);
+    const prompts = Array.from(weights, ([text, weight]) => ({text, weight}))
+      .map((p) => ({...p, weight: roundWeight(p.weight)}))
+      .filter((p) => p.weight > 0);
+    const key = prompts
+      .map((p) => `${p.text}:${p.weight}`)
+      .sort()
+      .join('\n');
+    if (!this.isMorphComplete(now)) {
+      this.timerId = window.setTimeout(
+        () => void this.tick(),
+        this.options.minInterval,
+      );
+    }
+    if (key === this.lastSentKey) {
+      return;
+    }
+    this.lastSentKey = key;
+    this.lastSendTime = now;
+    await this.send(prompts);
+  }
+
+  private isMorphComplete(time: number): boolean {
+    return (
+      this.fromWeights.size === 0 ||
+      time - this.morphStartTime >= this.options.morphDuration
+    );
+  }
+
+  // Returns the mix at the given time of the morph towards the target.
+  private getWeightsAt(time: number): Map<string, number> {
+    const target = this.targetWeights;
+    if (this.isMorphComplete(time)) {
+      return new Map(target);
+    }
+    const progress = EASING_FUNCTIONS[this.options.easing](
+      (time - this.morphStartTime) / this.options.morphDuration,
+    );
+    const texts = new Set([...this.fromWeights.keys(), ...target.keys()]);
+    const weights = new Map<string, number>();
+    for (const text of texts) {
+      const from = this.fromWeights.get(text) ?? 0;
+      const to = target.get(text) ?? 0;
+      weights.set(text, from + (to - from) * progress);
+    }
+    return weights;
+  }
+}
+
+function roundWeight(weight: number): number {
+  const scale = Math.pow(10, WEIGHT_PRECISION);
+  return Math.round(weight * scale) / scale;
+}
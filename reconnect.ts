@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Exponential backoff with jitter for reconnecting to a session.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Options for the reconnect backoff. Delays are in milliseconds.
+ */
+export interface BackoffOptions {
+  initialDelay: number;
+  maxDelay: number;
+  maxAttempts: number;
+}
+
+const DEFAULT_OPTIONS: BackoffOptions = {
+  initialDelay: 500,
+  maxDelay: 15000,
+  maxAttempts: 6,
+};
+
+/**
+ * Produces the delays between reconnect attempts. Each delay doubles up to a
+ * maximum, and is randomized between half and all of that value so that many
+ * clients dropped at once do not reconnect in lockstep.
+ */
+export class Backoff {
+  private readonly options: BackoffOptions;
+  private attempt = 0;
+
+  constructor(options: Partial<BackoffOptions> = {}) {
+    this.options = {...DEFAULT_OPTIONS, ...options};
+  }
+
+  /**
+   * Returns the number of attempts made since the last reset.
+   */
+  getAttempt(): number {
+    return this.attempt;
+  }
+
+  /**
+   * Returns the maximum number of attempts before giving up.
+   */
+  getMaxAttempts(): number {
+    return this.options.maxAttempts;
+  }
+
+  /**
+   * Returns the delay before the next attempt, or null if all attempts have
+   * been used.
+   */
+  nextDelay(): number | null {
+    if (this.attempt >= this.options.maxAttempts) {
+      return null;
+    }
+    const delay = Math.min(
+      this.options.maxDelay,
+      this.options.initialDelay * Math.pow(2, this.attempt),
+    );
+    this.attempt++;
+    return delay / 2 + (Math.random() * delay) / 2;
+  }
+
+  /**
+   * Starts counting attempts from zero, e.g. after a successful connection.
+   */
+  reset() {
+    this.attempt = 0;
+  }
+}
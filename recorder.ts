@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Records the live audio stream and exports it as WAV.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const WAV_HEADER_BYTES = 44;
+const BYTES_PER_SAMPLE = 2;
+
+/**
+ * Records the audio chunks of the live mix in playback order.
+ *
+ * Chunks are placed on the audio context clock, so any time between the end
+ * of one chunk and the start of the next (pauses, under-runs, reconnects) is
+ * recorded as silence.
+ */
+export class MixRecorder {
+  private chunks: Int16Array[] = [];
+  private frameCount = 0;
+  private startTime = 0;
+  private endTime = 0;
+  private recording = false;
+
+  constructor(
+    private readonly sampleRate = 48000,
+    private readonly numChannels = 2,
+  ) {}
+
+  /**
+   * Returns whether the recorder is currently recording.
+   */
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Starts a new recording, discarding any previously captured audio.
+   *
+   * @param currentTime The current time of the audio context.
+   */
+  start(currentTime: number) {
+    this.chunks = [];
+    this.frameCount = 0;
+    this.startTime = currentTime;
+    this.endTime = currentTime;
+    this.recording = true;
+  }
+
+  /**
+   * Adds a chunk that is scheduled to play at the given time. The chunk is
+   * copied, so its buffer may be transferred afterwards.
+   *
+   * @param pcm The interleaved 16-bit PCM data.
+   * @param when The audio context time at which the chunk starts playing.
+   */
+  addChunk(pcm: Int16Array, when: number) {
+    if (!this.recording) {
+      return;
+    }
+    const length = pcm.length / this.numChannels;
+    let skipFrames = 0;
+    if (when > this.endTime) {
+      this.addSilence(Math.round((when - this.endTime) * this.sampleRate));
+    } else if (when < this.endTime) {
+      // Drop the part of the chunk that overlaps audio already recorded.
+      skipFrames = Math.round((this.endTime - when) * this.sampleRate);
+    }
+    if (skipFrames >= length) {
+      return;
+    }
+    this.chunks.push(pcm.slice(skipFrames * this.numChannels));
+    this.frameCount += length - skipFrames;
+    this.endTime = Math.max(this.endTime, when + length / this.sampleRate);
+  }
+
+  private addSilence(frames: number) {
+    if (frames <= 0) {
+      return;
+    }
+    this.chunks.push(new Int16Array(frames * this.numChannels));
+    this.frameCount += frames;
+  }
+
+  /**
+   * Returns the elapsed recording time in seconds.
+   *
+   * @param currentTime The current time of the audio context.
+   */
+  getElapsedTime(currentTime: number): number {
+    return this.recording ? Math.max(0, currentTime - this.startTime) : 0;
+  }
+
+  /**
+   * Returns the size in bytes of the WAV file recorded so far.
+   */
+  getFileSize(): number {
+    return (
+      WAV_HEADER_BYTES + this.frameCount * this.numChannels * BYTES_PER_SAMPLE
+    );
+  }
+
+  /**
+   * Stops the recording and returns it encoded as a 16-bit PCM WAV file.
+   */
+  stop(): Blob {
+    this.recording = false;
+    const blob = encodeWav(this.chunks, this.sampleRate, this.numChannels);
+    this.chunks = [];
+    this.frameCount = 0;
+    return blob;
+  }
+}
+
+/**
+ * Encodes interleaved 16-bit PCM chunks as a WAV file.
+ *
+ * @param chunks The chunks to encode, in playback order.
+ * @param sampleRate The sample rate of the audio data.
+ * @param numChannels The number of audio channels.
+ * @return The WAV file.
+ */
+export function encodeWav(
+  chunks: Int16Array[],
+  sampleRate: number,
+  numChannels: number,
+): Blob {
+  const dataBytes = chunks.reduce((sum, c) => sum + c.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(WAV_HEADER_BYTES));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      header.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataBytes, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * numChannels * BYTES_PER_SAMPLE, true);
+  header.setUint16(32, numChannels * BYTES_PER_SAMPLE, true);
+  header.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+  writeString(36, 'data');
+  header.setUint32(40, dataBytes, true);
+
+  // WAV data is little-endian, like the PCM chunks on all supported platforms.
+  return new Blob([header, ...chunks], {type: 'audio/wav'});
+}
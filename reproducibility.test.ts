@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Tests that the same seed lays the points out and flies the
+ * autopilot the same way.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from 'three';
+import {describe, expect, it, vi} from 'vitest';
+import {PointCloudGenerator} from './points';
+import {type ProjectionMethod, type ProjectionSettings} from './projection';
+import {Spaceship} from './spaceship';
+import {createRandomStream} from './utils';
+
+const POINT_COUNT = 30;
+const DIMENSIONS = 8;
+const AUTOPILOT_STEPS = 300;
+
+interface LaidOutPoint {
+  label: string;
+  position: number[];
+  highDimVector: number[];
+}
+
+// More embeddings than points, so the points are a random subset.
+function createEmbeddings(): Map<string, number[]> {
+  const random = createRandomStream(0, 'test-embeddings');
+  return new Map(
+    Array.from({length: POINT_COUNT * 2}, (_, i) => [
+      `genre ${i}`,
+      Array.from({length: DIMENSIONS}, () => random() * 2 - 1),
+    ]),
+  );
+}
+
+// Projects with the method, placing each embedding at its first three values
+// for the precomputed one.
+function createProjection(
+  embeddings: Map<string, number[]>,
+  method: ProjectionMethod,
+): ProjectionSettings {
+  return {
+    method,
+    umap: {nNeighbors: 5, minDist: 0.1, spread: 0.75},
+    pca: {normalize: true, whiten: false},
+    tsne: {perplexity: 10, learningRate: 25, iterations: 100},
+    precomputed: {
+      coordinates: new Map(
+        Array.from(embeddings, ([label, vector]) => [
+          label,
+          vector.slice(0, 3),
+        ]),
+      ),
+      normalize: true,
+    },
+  };
+}
+
+// Lays out a random subset of the embeddings, with random vectors in place
+// of theirs.
+async function layOut(
+  rngSeed: number,
+  method: ProjectionMethod = 'precomputed',
+): Promise<LaidOutPoint[]> {
+  const embeddings = createEmbeddings();
+  const generator = new PointCloudGenerator(embeddings, rngSeed);
+  const result = await generator.generatePointCloudData(
+    POINT_COUNT,
+    DIMENSIONS,
+    true,
+    false,
+    25,
+    createProjection(embeddings, method),
+  );
+  return result!.data.map(({label, position, highDimVector}) => ({
+    label,
+    position: position.toArray(),
+    highDimVector,
+  }));
+}
+
+// Flies the autopilot among the points, returning where the ship went.
+function flyAutopilot(rngSeed: number, layout: LaidOutPoint[]): number[][] {
+  const pointsGroup = new THREE.Group();
+  const pointMeshes = layout.map(({position}) => {
+    const pointObject = new THREE.Object3D();
+    pointObject.position.fromArray(position);
+    const mesh = new THREE.Mesh(new THREE.SphereGeometry(0.1));
+    pointObject.add(mesh);
+    pointsGroup.add(pointObject);
+    return mesh;
+  });
+  const spaceship = new Spaceship(new THREE.WebGLCubeRenderTarget(8));
+  spaceship.random = createRandomStream(rngSeed, 'autopilot-0');
+  spaceship.toggleAutopilot();
+  const path: number[][] = [];
+  for (let step = 0; step < AUTOPILOT_STEPS; step++) {
+    spaceship.updatePosition(new Set(), pointsGroup, pointMeshes);
+    path.push(spaceship.getMesh().position.toArray());
+  }
+  return path;
+}
+
+describe('seeding', () => {
+  it('lays out the same points the same way for the same seed', async () => {
+    const layout = await layOut(42);
+
+    expect(await layOut(42)).toEqual(layout);
+    expect(await layOut(43)).not.toEqual(layout);
+  });
+
+  it('projects the same way for the same seed', async () => {
+    // There are no workers here, so the projection warns and runs inline.
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const layout = await layOut(42, 'umap');
+
+    expect(await layOut(42, 'umap')).toEqual(layout);
+    expect(await layOut(43, 'umap')).not.toEqual(layout);
+  });
+
+  it('flies the same autopilot path for the same seed', async () => {
+    const layout = await layOut(42);
+    const path = flyAutopilot(42, layout);
+
+    expect(flyAutopilot(42, layout)).toEqual(path);
+    expect(flyAutopilot(43, layout)).not.toEqual(path);
+  });
+});
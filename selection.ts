@@ -5,7 +5,7 @@
  */
 
 import * as THREE from 'three';
-import {PointCloud, PointCloudGenerator} from './points';
+import {PointCloud} from './points';
 
 // Highlighting Colors and Intensities
 const DEFAULT_COLOR = new THREE.Color(0x6e6e78); // Medium Gray
@@ -25,14 +25,15 @@ export class PointHighlighter {
   private highlightedObjects: THREE.Mesh[] = [];
 
   /**
-   * Resets the highlights to the default color and clears the list of
-   * highlighted objects.
+   * Resets the highlights to the cluster or default color and clears the list
+   * of highlighted objects.
    */
   resetHighlights(): void {
     for (const mesh of this.highlightedObjects) {
       const material = mesh.material as THREE.MeshStandardMaterial;
-      material.color.set(DEFAULT_COLOR);
-      material.emissive.set(DEFAULT_COLOR);
+      const color = mesh.userData.baseColor ?? DEFAULT_COLOR;
+      material.color.set(color);
+      material.emissive.set(color);
       material.emissiveIntensity = DEFAULT_INTENSITY;
     }
     this.highlightedObjects = [];
@@ -189,7 +190,6 @@ export class PointSelector {
   private proximityWeights: {[key: string]: number} = {};
 
   constructor(
-    private readonly pointCloudGenerator: PointCloudGenerator,
     private readonly getPointCloud: () => PointCloud | null,
     private readonly options: {
       threeDClickRadius: number;
@@ -216,11 +216,6 @@ export class PointSelector {
       true,
     );
 
-    const primaryMeshes: THREE.Mesh[] = [];
-    let directlyClickedMesh: THREE.Mesh | null = null;
-    const selectionWeights: {[key: string]: number} = {};
-    const radius = this.options.threeDClickRadius;
-    const radiusSq = radius * radius;
     const pointCloud = this.getPointCloud();
     if (!pointCloud) {
       return;
@@ -229,66 +224,92 @@ export class PointSelector {
     if (intersects.length > 0) {
       const targetMesh = intersects[0].object;
       if (targetMesh instanceof THREE.Mesh && targetMesh.userData.vector) {
-        directlyClickedMesh = targetMesh;
-        const centerPointObject = targetMesh.parent;
-        if (centerPointObject) {
-          const centerPosition = new THREE.Vector3();
-          centerPointObject.getWorldPosition(centerPosition);
-          const searchRay = new THREE.Ray(
-            cameraPosition,
-            centerPosition.clone().sub(cameraPosition).normalize(),
-          );
-
-          for (const mesh of pointCloud.getPointMeshes()) {
-            const pointObject = mesh.parent;
-            if (!pointObject) {
-              continue;
-            }
-            const worldPosition = new THREE.Vector3();
-            pointObject.getWorldPosition(worldPosition);
-            const distanceToRaySq = searchRay.distanceSqToPoint(worldPosition);
-            if (distanceToRaySq < radiusSq) {
-              primaryMeshes.push(mesh);
-              const distance = Math.sqrt(distanceToRaySq);
-              const normalizedWeight = 1 - Math.min(distance, radius) / radius;
-              selectionWeights[mesh.userData.label] = normalizedWeight;
-            }
-          }
-        }
+        this.selectPoint(targetMesh, cameraPosition);
+      } else {
+        this.manualSelectionState = null;
       }
-    } else {
-      const clickedRay = raycaster.ray;
-      for (const mesh of pointCloud.getPointMeshes()) {
-        const pointObject = mesh.parent;
-        if (!pointObject) {
-          continue;
-        }
-        const worldPosition = new THREE.Vector3();
-        pointObject.getWorldPosition(worldPosition);
-        const distanceToRaySq = clickedRay.distanceSqToPoint(worldPosition);
-        if (distanceToRaySq < radiusSq) {
-          primaryMeshes.push(mesh);
-          const distance = Math.sqrt(distanceToRaySq);
-          const normalizedWeight = 1 - Math.min(distance, radius) / radius;
-          selectionWeights[mesh.userData.label] = normalizedWeight;
-        }
+      return;
+    }
+
+    const primaryMeshes: THREE.Mesh[] = [];
+    const selectionWeights: {[key: string]: number} = {};
+    const radius = this.options.threeDClickRadius;
+    const radiusSq = radius * radius;
+    const clickedRay = raycaster.ray;
+    for (const mesh of pointCloud.getPointMeshes()) {
+      const pointObject = mesh.parent;
+      if (!pointObject) {
+        continue;
+      }
+      const worldPosition = new THREE.Vector3();
+      pointObject.getWorldPosition(worldPosition);
+      const distanceToRaySq = clickedRay.distanceSqToPoint(worldPosition);
+      if (distanceToRaySq < radiusSq) {
+        primaryMeshes.push(mesh);
+        const distance = Math.sqrt(distanceToRaySq);
+        const normalizedWeight = 1 - Math.min(distance, radius) / radius;
+        selectionWeights[mesh.userData.label] = normalizedWeight;
+      }
+    }
+    this.setManualSelection(primaryMeshes, selectionWeights, null);
+  }
+
+  /**
+   * Selects a point as if it was clicked, along with the points near the line
+   * from the camera to it.
+   */
+  selectPoint(targetMesh: THREE.Mesh, cameraPosition: THREE.Vector3) {
+    const pointCloud = this.getPointCloud();
+    const centerPointObject = targetMesh.parent;
+    if (!pointCloud || !centerPointObject) {
+      this.manualSelectionState = null;
+      return;
+    }
+
+    const primaryMeshes: THREE.Mesh[] = [];
+    const selectionWeights: {[key: string]: number} = {};
+    const radius = this.options.threeDClickRadius;
+    const radiusSq = radius * radius;
+    const centerPosition = new THREE.Vector3();
+    centerPointObject.getWorldPosition(centerPosition);
+    const searchRay = new THREE.Ray(
+      cameraPosition,
+      centerPosition.clone().sub(cameraPosition).normalize(),
+    );
+
+    for (const mesh of pointCloud.getPointMeshes()) {
+      const pointObject = mesh.parent;
+      if (!pointObject) {
+        continue;
+      }
+      const worldPosition = new THREE.Vector3();
+      pointObject.getWorldPosition(worldPosition);
+      const distanceToRaySq = searchRay.distanceSqToPoint(worldPosition);
+      if (distanceToRaySq < radiusSq) {
+        primaryMeshes.push(mesh);
+        const distance = Math.sqrt(distanceToRaySq);
+        const normalizedWeight = 1 - Math.min(distance, radius) / radius;
+        selectionWeights[mesh.userData.label] = normalizedWeight;
       }
     }
+    this.setManualSelection(primaryMeshes, selectionWeights, targetMesh);
+  }
 
-    if (primaryMeshes.length === 0) {
+  private setManualSelection(
+    primaryMeshes: THREE.Mesh[],
+    selectionWeights: {[key: string]: number},
+    directlyClickedMesh: THREE.Mesh | null,
+  ) {
+    const pointCloud = this.getPointCloud();
+    if (!pointCloud || primaryMeshes.length === 0) {
       this.manualSelectionState = null;
       return;
     }
 
     let neighborDistances = new Map<number, number>();
     if (this.options.includeHighDimensionalNeighbors) {
-      const primaryVectors = primaryMeshes.map((m) => m.userData.vector);
-      const allVectors = pointCloud
-        .getPointMeshes()
-        .map((m: THREE.Mesh) => m.userData.vector);
-      neighborDistances = this.pointCloudGenerator.findHighDimensionalNeighbors(
-        primaryVectors,
-        allVectors,
+      neighborDistances = pointCloud.findHighDimensionalNeighbors(
+        primaryMeshes.map((m) => m.userData.index),
         this.options.neighborRadius,
       );
       this.addNeighborsToWeights(neighborDistances, selectionWeights);
@@ -401,16 +422,9 @@ export class PointSelector {
       return;
     }
 
-    const primaryVectors = this.manualSelectionState.primaryMeshes.map(
-      (m) => m.userData.vector,
-    );
-    const allVectors = pointCloud
-      .getPointMeshes()
-      .map((m) => m.userData.vector);
     this.manualSelectionState.neighborDistances =
-      this.pointCloudGenerator.findHighDimensionalNeighbors(
-        primaryVectors,
-        allVectors,
+      pointCloud.findHighDimensionalNeighbors(
+        this.manualSelectionState.primaryMeshes.map((m) => m.userData.index),
         this.options.neighborRadius,
       );
   }
@@ -501,6 +515,8 @@ export class PointSelector {
     if (!preserved) {
       return;
     }
+    // Forget meshes of the previous point cloud.
+    this.manualSelectionState = null;
 
     const newPrimaryMeshes: THREE.Mesh[] = [];
     let newClickedMesh: THREE.Mesh | null = null;
@@ -516,16 +532,10 @@ export class PointSelector {
     if (newPrimaryMeshes.length > 0) {
       let neighborDistances = new Map<number, number>();
       if (this.options.includeHighDimensionalNeighbors) {
-        const primaryVectors = newPrimaryMeshes.map((m) => m.userData.vector);
-        const allVectors = pointCloud
-          .getPointMeshes()
-          .map((m) => m.userData.vector);
-        neighborDistances =
-          this.pointCloudGenerator.findHighDimensionalNeighbors(
-            primaryVectors,
-            allVectors,
-            this.options.neighborRadius,
-          );
+        neighborDistances = pointCloud.findHighDimensionalNeighbors(
+          newPrimaryMeshes.map((m) => m.userData.index),
+          this.options.neighborRadius,
+        );
       }
       this.manualSelectionState = {
         primaryMeshes: newPrimaryMeshes,
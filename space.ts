@@ -5,14 +5,26 @@
  */
 
 import {css, html, LitElement} from 'lit';
-import {customElement, property, query} from 'lit/decorators.js';
+import {customElement, property, query, state} from 'lit/decorators.js';
+import {when} from 'lit/directives/when.js';
 
 import * as THREE from 'three';
+import {CSS2DObject} from 'three/examples/jsm/renderers/CSS2DRenderer.js';
 
+import {alignLayout} from './alignment';
+import {findClusters, type Cluster} from './clustering';
+import {type LayoutCache} from './layout_cache';
 import {PointCloud, PointCloudGenerator} from './points';
+import {type ProjectionMethod} from './projection';
 import {SceneRenderer} from './scene';
 import {PointHighlighter, PointSelector} from './selection';
-import {Spaceship} from './spaceship';
+import {
+  combineAxes,
+  NO_FLIGHT_AXES,
+  Spaceship,
+  type FlightAxes,
+} from './spaceship';
+import {createRandomStream} from './utils';
 
 const MAX_PROMPTS = 10;
 const MIN_PROMPT_WEIGHT = 0.1;
@@ -21,6 +33,20 @@ const LABEL_UPDATE_THROTTLE = 5;
 const LABEL_SELECTION_CONE_DEGREES = 25;
 const LABEL_SELECTION_CONE_HEIGHT = 40;
 const HIGHLIGHT_UPDATE_THROTTLE = 3;
+// Distance between ships when another one joins.
+const SHIP_SPACING = 4;
+// Distance between the layouts compared in the split view.
+const COMPARISON_GAP = 20;
+const NO_KEYS = new Set<string>();
+
+/**
+ * A ship and the prompts it selects.
+ */
+interface Pilot {
+  spaceship: Spaceship;
+  pointSelector: PointSelector;
+  lastDispatchedWeights: {[key: string]: number} | null;
+}
 
 /**
  * Interactive music latent space visualization component.
@@ -51,12 +77,27 @@ export class SpaceComponent extends LitElement {
   @property({type: Array})
   selectedEmbeddings: Array<[string, number[]]> = [];
 
+  /** Seeds the points picked, their layout and the autopilots. */
+  @property({type: Number})
+  rngSeed = new Date().setHours(0, 0, 0, 0);
+
   @property({type: Boolean})
   randomizeEmbeddings = true;
 
   @property({type: Boolean})
   randomizePoints = false;
 
+  /** The radius of the sphere random points fill. */
+  @property({type: Number})
+  randomPointsRadius = 25;
+
+  /**
+   * Whether to show the points laid out the other way beside the space, at
+   * random beside the projection or the other way round.
+   */
+  @property({type: Boolean})
+  splitView = false;
+
   @property({type: Number})
   nNeighbors = 15;
 
@@ -66,19 +107,73 @@ export class SpaceComponent extends LitElement {
   @property({type: Number})
   spread = 0.75;
 
+  @property({type: String})
+  projectionMethod: ProjectionMethod = 'umap';
+
+  @property({type: Boolean})
+  pcaNormalize = true;
+
+  @property({type: Boolean})
+  pcaWhiten = false;
+
+  @property({type: Number})
+  tsnePerplexity = 30;
+
+  @property({type: Number})
+  tsneLearningRate = 25;
+
+  @property({type: Number})
+  tsneIterations = 500;
+
+  /** Coordinates by label for the precomputed projection. */
+  @property({type: Object})
+  precomputedCoordinates: Map<string, number[]> | null = null;
+
+  @property({type: Boolean})
+  precomputedNormalize = true;
+
+  /** The number of clusters to color the points by, or 0 for none. */
+  @property({type: Number})
+  clusterCount = 8;
+
+  /** Where computed layouts are kept across sessions. */
+  @property({type: Object})
+  layoutCache: LayoutCache | null = null;
+
+  /** The number of ships, each selecting its own prompts. */
+  @property({type: Number})
+  shipCount = 1;
+
+  /** The ship steered by the keyboard and followed by the camera. */
+  @property({type: Number})
+  focusedShip = 0;
+
   private pointCloudGenerator!: PointCloudGenerator;
   private sceneRenderer!: SceneRenderer;
   private pointCloud: PointCloud | null = null;
+  // The points laid out the other way in the split view, and its titles.
+  private comparisonCloud: PointCloud | null = null;
+  private comparisonHighlights: THREE.Mesh[] = [];
+  private layoutTitles: CSS2DObject[] = [];
   private readonly pointHighlighter = new PointHighlighter();
-  private pointSelector!: PointSelector;
   private readonly raycaster = new THREE.Raycaster();
   private readonly mouse = new THREE.Vector2();
-  private spaceship: Spaceship | null = null;
+  private pilots: Pilot[] = [];
+  private clusters: Cluster[] = [];
+  // The points the ships keep their distance to while the points move.
+  private shipAnchors: Array<{
+    spaceship: Spaceship;
+    pointObject: THREE.Object3D;
+    position: THREE.Vector3;
+  }> = [];
 
   private animationFrameId?: number;
   private frameCount = 0;
   private readonly keysPressed = new Set<string>();
-  private lastDispatchedWeights: {[key: string]: number} | null = null;
+  // Analog flight controls by input device.
+  private readonly flightInputs = new Map<string, FlightAxes>();
+  // The fraction of the layout computed, or null when not computing one.
+  @state() private layoutProgress: number | null = null;
 
   @query('#container')
   private container!: HTMLDivElement;
@@ -100,56 +195,75 @@ export class SpaceComponent extends LitElement {
     if (this.animationFrameId) {
       cancelAnimationFrame(this.animationFrameId);
     }
+    this.pointCloudGenerator?.cancel();
     this.sceneRenderer.dispose();
     this.pointCloud?.dispose();
+    this.comparisonCloud?.dispose();
     this.container.removeEventListener('click', this.onClick);
     window.removeEventListener('keydown', this.onKeyDown);
     window.removeEventListener('keyup', this.onKeyUp);
   }
 
   protected firstUpdated(): void {
-    const urlParams = new URLSearchParams(window.location.search);
-    const seedParam = urlParams.get('rng-seed');
-    // Set the default random number generator seed to midnight today, so the
-    // the point cloud is consistent throughout the day and updates daily.
-    let rngSeed = new Date().setHours(0, 0, 0, 0);
-    if (seedParam) {
-      const parsedSeed = Number(seedParam);
-      if (!isNaN(parsedSeed)) {
-        rngSeed = parsedSeed;
-      }
-    }
     this.sceneRenderer = new SceneRenderer(this.container);
     this.pointCloudGenerator = new PointCloudGenerator(
       this.embeddingsCache,
-      rngSeed,
+      this.rngSeed,
+      this.layoutCache,
     );
     this.container.addEventListener('click', this.onClick);
-    this.spaceship = new Spaceship(this.sceneRenderer.cubeRenderTarget);
-    this.spaceship.onAutopilotChanged = (active) => {
+    this.updatePilots();
+    void this.renderSpace();
+  }
+
+  private get focusedPilot(): Pilot | undefined {
+    return this.pilots[this.focusedShip] ?? this.pilots[0];
+  }
+
+  /**
+   * Adds or removes ships to match the ship count.
+   */
+  private updatePilots() {
+    while (this.pilots.length < Math.max(1, this.shipCount)) {
+      this.pilots.push(this.createPilot(this.pilots.length));
+    }
+    while (this.pilots.length > Math.max(1, this.shipCount)) {
+      const pilot = this.pilots.pop()!;
+      this.sceneRenderer.remove(pilot.spaceship.getMesh());
+      pilot.spaceship.dispose();
+    }
+  }
+
+  private createPilot(ship: number): Pilot {
+    const spaceship = new Spaceship(this.sceneRenderer.cubeRenderTarget);
+    spaceship.random = createRandomStream(this.rngSeed, `autopilot-${ship}`);
+    spaceship.onAutopilotChanged = (active) => {
       if (!active) {
         this.dispatchEvent(
           new CustomEvent('autopilot-disengaged', {
+            detail: {ship},
             bubbles: true,
             composed: true,
           }),
         );
       }
     };
-    this.sceneRenderer.add(this.spaceship.getMesh());
-    this.renderEmbeddings();
-    this.setupSpaceshipInitialPosition();
-
-    this.pointSelector = new PointSelector(
-      this.pointCloudGenerator,
-      () => this.pointCloud,
-      {
-        threeDClickRadius: this.threeDClickRadius,
-        cameraProximityRadius: this.cameraProximityRadius,
-        neighborRadius: this.neighborRadius,
-        includeHighDimensionalNeighbors: this.includeHighDimensionalNeighbors,
-      },
-    );
+    this.sceneRenderer.add(spaceship.getMesh());
+    const leader = this.pilots[0]?.spaceship.getMesh();
+    if (leader) {
+      // Join next to the first ship, facing the same way.
+      const offset = new THREE.Vector3(SHIP_SPACING * ship, 0, 0);
+      offset.applyQuaternion(leader.quaternion);
+      spaceship.getMesh().position.copy(leader.position).add(offset);
+      spaceship.getMesh().quaternion.copy(leader.quaternion);
+    }
+    const pointSelector = new PointSelector(() => this.pointCloud, {
+      threeDClickRadius: this.threeDClickRadius,
+      cameraProximityRadius: this.cameraProximityRadius,
+      neighborRadius: this.neighborRadius,
+      includeHighDimensionalNeighbors: this.includeHighDimensionalNeighbors,
+    });
+    return {spaceship, pointSelector, lastDispatchedWeights: null};
   }
 
   protected updated(changedProperties: Map<string, unknown>) {
@@ -171,60 +285,129 @@ export class SpaceComponent extends LitElement {
     }
 
     if (Object.keys(optionsToUpdate).length > 0) {
-      this.pointSelector.updateOptions(optionsToUpdate);
+      for (const pilot of this.pilots) {
+        pilot.pointSelector.updateOptions(optionsToUpdate);
+      }
     }
 
     if (
       changedProperties.has('includeHighDimensionalNeighbors') ||
       changedProperties.has('neighborRadius')
     ) {
-      this.pointSelector.recalculateNeighbors();
+      for (const pilot of this.pilots) {
+        pilot.pointSelector.recalculateNeighbors();
+      }
+    }
+
+    if (changedProperties.has('clusterCount') && this.pointCloud) {
+      this.updateClusters();
+    }
+    if (changedProperties.has('shipCount') && this.sceneRenderer) {
+      this.updatePilots();
+    }
+    // The first embeddings are rendered once the scene is set up.
+    if (
+      (changedProperties.get('embeddingsCache') ||
+        changedProperties.get('rngSeed') !== undefined) &&
+      this.sceneRenderer
+    ) {
+      this.resetSpace();
+    }
+    if (changedProperties.has('focusedShip')) {
+      this.updateAndRenderHighlights(true);
+    }
+    if (changedProperties.get('splitView') !== undefined) {
+      if (!this.splitView) {
+        this.removeComparison();
+      } else if (this.layoutProgress === null) {
+        // Otherwise the comparison follows the layout being computed.
+        void this.renderComparison();
+      }
     }
   }
 
   /**
-   * Renders the space with the current embeddings and settings.
+   * Renders the space with the current embeddings and settings. The current
+   * space stays until the new layout is computed, and rendering again cancels
+   * the layout still being computed. Points already in the space then move to
+   * their new positions, which are aligned with their old ones.
    */
-  renderSpace() {
+  async renderSpace() {
+    const pointCloud = await this.createPointCloud();
+    if (!pointCloud) {
+      return;
+    }
+    const isFirstLayout = this.pointCloud === null;
+    const previousPositions = this.pointCloud?.getPositions() ?? null;
+
     // Preserve the labels of the manually selected points
-    const preservedManualSelection =
-      this.pointSelector.getPreservedManualSelection();
+    const preservedManualSelections = this.pilots.map((pilot) =>
+      pilot.pointSelector.getPreservedManualSelection(),
+    );
 
     this.cleanupScene();
-    this.renderEmbeddings();
+    this.pointCloud = pointCloud;
+    this.sceneRenderer.add(pointCloud.getPointsGroup());
+    this.updateClusters();
+    this.dispatchEvent(
+      new CustomEvent('points-rendered', {
+        detail: {
+          labels: pointCloud
+            .getPointMeshes()
+            .map((mesh) => mesh.userData.label as string),
+        },
+        bubbles: true,
+        composed: true,
+      }),
+    );
 
     // Restore manual selection state if it existed, finding the new meshes
-    if (preservedManualSelection && this.pointCloud) {
-      this.pointSelector.restoreManualSelection(
-        preservedManualSelection,
-        this.pointCloud,
-      );
+    for (const [i, pilot] of this.pilots.entries()) {
+      const preservedManualSelection = preservedManualSelections[i];
+      if (preservedManualSelection && this.pointCloud) {
+        pilot.pointSelector.restoreManualSelection(
+          preservedManualSelection,
+          this.pointCloud,
+        );
+      }
     }
 
     const pointsGroup = this.pointCloud?.getPointsGroup();
-    if (this.spaceship && pointsGroup) {
+    this.shipAnchors = [];
+    if (isFirstLayout) {
+      this.setupSpaceshipInitialPosition();
+    } else if (pointsGroup) {
       const box = new THREE.Box3().setFromObject(pointsGroup);
-      const spaceshipMesh = this.spaceship.getMesh();
-      // If the spaceship is far from the new point cloud, move it closer.
-      if (!box.containsPoint(spaceshipMesh.position)) {
-        const center = box.getCenter(new THREE.Vector3());
-        const size = box.getSize(new THREE.Vector3());
-        const spaceshipOffset = size.z / 2 + 10;
-        spaceshipMesh.position.set(
-          center.x,
-          center.y,
-          center.z + spaceshipOffset,
-        );
-        // Reset autopilot to find a new path
-        this.spaceship.resetAutopilotTarget();
+      for (const [i, {spaceship}] of this.pilots.entries()) {
+        const spaceshipMesh = spaceship.getMesh();
+        if (box.containsPoint(spaceshipMesh.position)) {
+          this.anchorShip(spaceship, pointCloud, previousPositions!);
+        } else {
+          // The spaceship is far from the new point cloud, so move it closer.
+          const center = box.getCenter(new THREE.Vector3());
+          const size = box.getSize(new THREE.Vector3());
+          const spaceshipOffset = size.z / 2 + 10;
+          spaceshipMesh.position.set(
+            center.x + SHIP_SPACING * i,
+            center.y,
+            center.z + spaceshipOffset,
+          );
+          // Reset autopilot to find a new path
+          spaceship.resetAutopilotTarget();
+        }
       }
     }
 
+    if (previousPositions) {
+      pointCloud.startTransition(previousPositions);
+    }
+
     this.updateAndRenderHighlights(true);
+    const focusedShip = this.focusedPilot!.spaceship;
     this.pointCloud?.updateLabelVisibilities(
       this.sceneRenderer.camera,
-      this.spaceship!.getMesh(),
-      this.spaceship!.occlusionHull,
+      focusedShip.getMesh(),
+      focusedShip.occlusionHull,
       this.pointHighlighter.getHighlightedObjects(),
       this.frameCount,
       LABEL_UPDATE_THROTTLE,
@@ -233,19 +416,280 @@ export class SpaceComponent extends LitElement {
       MAX_IN_VIEW_LABELS,
       true,
     );
+    await this.renderComparison();
+  }
+
+  // Lays the points out the other way beside the space in the split view.
+  private async renderComparison() {
+    this.removeComparison();
+    const pointCloud = this.pointCloud;
+    if (!this.splitView || !pointCloud) {
+      return;
+    }
+    const comparisonCloud = await this.createPointCloud(true);
+    if (!comparisonCloud) {
+      return;
+    }
+    // The space may have been rendered again, or the view closed, meanwhile.
+    if (this.pointCloud !== pointCloud || !this.splitView) {
+      comparisonCloud.dispose();
+      return;
+    }
+    this.removeComparison();
+    const box = pointCloud.getBoundingBox();
+    const comparisonBox = comparisonCloud.getBoundingBox();
+    const comparisonGroup = comparisonCloud.getPointsGroup()!;
+    const center = box.getCenter(new THREE.Vector3());
+    const comparisonCenter = comparisonBox.getCenter(new THREE.Vector3());
+    // Line the layouts up side by side along the x axis.
+    comparisonGroup.position.set(
+      box.max.x - comparisonBox.min.x + COMPARISON_GAP,
+      center.y - comparisonCenter.y,
+      center.z - comparisonCenter.z,
+    );
+    this.comparisonCloud = comparisonCloud;
+    this.sceneRenderer.add(comparisonGroup);
+
+    const [title, comparisonTitle] = this.randomizePoints
+      ? ['Random points', 'Embedding layout']
+      : ['Embedding layout', 'Random points'];
+    this.layoutTitles = [
+      addLayoutTitle(pointCloud.getPointsGroup()!, box, title),
+      addLayoutTitle(comparisonGroup, comparisonBox, comparisonTitle),
+    ];
+    this.updateComparisonHighlights();
+  }
+
+  private removeComparison() {
+    for (const title of this.layoutTitles) {
+      title.removeFromParent();
+      title.element.remove();
+    }
+    this.layoutTitles = [];
+    if (this.comparisonCloud) {
+      this.sceneRenderer.remove(this.comparisonCloud.getPointsGroup()!);
+      this.comparisonCloud.dispose();
+    }
+    this.comparisonCloud = null;
+    this.comparisonHighlights = [];
+  }
+
+  // Colors the compared points like the points with the same labels.
+  private updateComparisonHighlights() {
+    if (this.comparisonCloud && this.pointCloud) {
+      this.comparisonHighlights = this.comparisonCloud.copyColors(
+        this.pointCloud,
+        this.pointHighlighter.getHighlightedObjects(),
+      );
+    }
+  }
+
+  // Keeps a ship by the point nearest to it that was in the previous space.
+  private anchorShip(
+    spaceship: Spaceship,
+    pointCloud: PointCloud,
+    previousPositions: Map<string, THREE.Vector3>,
+  ) {
+    const shipPosition = spaceship.getMesh().position;
+    let anchor: {pointObject: THREE.Object3D; position: THREE.Vector3} | null =
+      null;
+    for (const mesh of pointCloud.getPointMeshes()) {
+      const position = previousPositions.get(mesh.userData.label);
+      if (
+        position &&
+        mesh.parent &&
+        (!anchor ||
+          position.distanceToSquared(shipPosition) <
+            anchor.position.distanceToSquared(shipPosition))
+      ) {
+        anchor = {pointObject: mesh.parent, position: position.clone()};
+      }
+    }
+    if (anchor) {
+      this.shipAnchors.push({spaceship, ...anchor});
+    }
+  }
+
+  // Moves the points along their transition, and the ships along with them.
+  private updateTransition() {
+    if (!this.pointCloud?.updateTransition()) {
+      this.shipAnchors = [];
+      return;
+    }
+    for (const {spaceship, pointObject, position} of this.shipAnchors) {
+      spaceship.getMesh().position.add(pointObject.position).sub(position);
+      position.copy(pointObject.position);
+    }
+  }
+
+  // Renders the space from scratch, picking new points and autopilot
+  // destinations with the current embeddings and seed.
+  private resetSpace() {
+    this.pointCloudGenerator.cancel();
+    this.pointCloudGenerator = new PointCloudGenerator(
+      this.embeddingsCache,
+      this.rngSeed,
+      this.layoutCache,
+    );
+    for (const [ship, {spaceship}] of this.pilots.entries()) {
+      spaceship.random = createRandomStream(this.rngSeed, `autopilot-${ship}`);
+      spaceship.resetAutopilotTarget();
+    }
+    this.selectedEmbeddings = [];
+    void this.renderSpace();
+  }
+
+  // Clusters the points, keeping clusters of the same name hidden.
+  private updateClusters() {
+    const meshes = this.pointCloud?.getPointMeshes() ?? [];
+    const hiddenNames = new Set(
+      this.clusters.filter(({visible}) => !visible).map(({name}) => name),
+    );
+    this.clusters =
+      this.clusterCount > 0
+        ? findClusters(
+            meshes.map((mesh) => mesh.userData.vector as number[]),
+            meshes.map((mesh) => mesh.userData.label as string),
+            this.clusterCount,
+            createRandomStream(this.rngSeed, 'clusters'),
+          )
+        : [];
+    for (const cluster of this.clusters) {
+      cluster.visible = !hiddenNames.has(cluster.name);
+    }
+    this.applyClusters();
+  }
+
+  private applyClusters() {
+    this.pointCloud?.setClusters(
+      this.clusters,
+      this.pointHighlighter.getHighlightedObjects(),
+    );
+    this.dispatchEvent(
+      new CustomEvent('clusters-changed', {
+        detail: {clusters: this.clusters},
+        bubbles: true,
+        composed: true,
+      }),
+    );
   }
 
   /**
-   * Toggles the autopilot mode of the spaceship.
+   * Shows or hides the color and label of a cluster.
+   *
+   * @param index The index of the cluster, as listed in `clusters-changed`.
+   * @param visible Whether to show the cluster.
    */
-  toggleAutopilot() {
-    return this.spaceship?.toggleAutopilot();
+  setClusterVisible(index: number, visible: boolean) {
+    const cluster = this.clusters[index];
+    if (!cluster) {
+      return;
+    }
+    this.clusters = this.clusters.map((c) =>
+      c === cluster ? {...c, visible} : c,
+    );
+    this.applyClusters();
+  }
+
+  /**
+   * Flies the focused ship to a point, and selects the point and its
+   * neighbors once there.
+   *
+   * @param label The label of the point.
+   * @return Whether the point is rendered, and so can be flown to.
+   */
+  flyToPoint(label: string): boolean {
+    const mesh = this.pointCloud
+      ?.getPointMeshes()
+      .find((m) => m.userData.label === label);
+    const pilot = this.focusedPilot;
+    if (!mesh?.parent || !pilot) {
+      return false;
+    }
+    const target = mesh.parent.getWorldPosition(new THREE.Vector3());
+    pilot.spaceship.flyTo(target, () => {
+      // The space may have been rendered again during the flight.
+      if (this.pointCloud?.getPointMeshes().includes(mesh)) {
+        pilot.pointSelector.selectPoint(
+          mesh,
+          this.sceneRenderer.camera.position,
+        );
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Swaps a point into the rendered subset in place of one no ship has
+   * selected, and renders the space again.
+   *
+   * @param label The label of the point.
+   * @return Whether the point is rendered now. It is not if every rendered
+   *     point is selected, or the layout cannot place it.
+   */
+  async swapInPoint(label: string): Promise<boolean> {
+    const embedding = this.embeddingsCache.get(label);
+    if (!embedding) {
+      return false;
+    }
+    if (!this.selectedEmbeddings.some(([selected]) => selected === label)) {
+      const selectedLabels = new Set(
+        this.pilots.flatMap(({pointSelector}) =>
+          Object.keys(pointSelector.getCombinedWeights()),
+        ),
+      );
+      let replaced = this.selectedEmbeddings.length - 1;
+      while (
+        replaced >= 0 &&
+        selectedLabels.has(this.selectedEmbeddings[replaced][0])
+      ) {
+        replaced--;
+      }
+      if (replaced < 0) {
+        return false;
+      }
+      this.selectedEmbeddings = this.selectedEmbeddings.map((entry, i) =>
+        i === replaced ? [label, embedding] : entry,
+      );
+      await this.renderSpace();
+    }
+    return (
+      this.pointCloud
+        ?.getPointMeshes()
+        .some((mesh) => mesh.userData.label === label) ?? false
+    );
+  }
+
+  /**
+   * Toggles the autopilot mode of a spaceship.
+   *
+   * @param ship The ship to toggle, by default the focused one.
+   * @return Whether the autopilot is now active.
+   */
+  toggleAutopilot(ship = this.focusedShip) {
+    return this.pilots[ship]?.spaceship.toggleAutopilot();
+  }
+
+  /**
+   * Sets the analog flight controls of an input device, which steer the
+   * focused ship along with the keyboard.
+   *
+   * @param source Identifies the input device.
+   * @param axes The controls, or null once the device is released.
+   */
+  setFlightAxes(source: string, axes: FlightAxes | null) {
+    if (axes) {
+      this.flightInputs.set(source, axes);
+    } else {
+      this.flightInputs.delete(source);
+    }
   }
 
   private setupSpaceshipInitialPosition(): void {
     // Position the spaceship initially based on the point cloud's bounds.
     const pointsGroup = this.pointCloud?.getPointsGroup();
-    if (this.spaceship && pointsGroup) {
+    const spaceship = this.focusedPilot?.spaceship;
+    if (spaceship && pointsGroup) {
       const box = new THREE.Box3().setFromObject(pointsGroup);
       const center = box.getCenter(new THREE.Vector3());
       const size = box.getSize(new THREE.Vector3());
@@ -253,7 +697,7 @@ export class SpaceComponent extends LitElement {
       // Position it just outside the bounding box on the Z axis, relative to the center.
       // This places it in a good starting position to fly into the cloud.
       const spaceshipOffset = size.z / 2 + 10;
-      const spaceshipMesh = this.spaceship.getMesh();
+      const spaceshipMesh = spaceship.getMesh();
       spaceshipMesh.position.set(
         center.x,
         center.y,
@@ -281,33 +725,82 @@ export class SpaceComponent extends LitElement {
     this.pointHighlighter.resetHighlights();
   }
 
-  private renderEmbeddings(): void {
-    const {data, selectedEmbeddings} =
-      this.pointCloudGenerator.generatePointCloudData(
+  // Computes the layout of the embeddings, showing its progress. The layout
+  // compared in the split view places the selected points the other way.
+  //
+  // Returns null if the layout failed, or was cancelled by a later one.
+  private async createPointCloud(
+    isComparison = false,
+  ): Promise<PointCloud | null> {
+    this.layoutProgress = 0;
+    let result;
+    try {
+      result = await this.pointCloudGenerator.generatePointCloudData(
         this.pointCount,
         this.embeddingDimensions,
         this.randomizeEmbeddings,
+        isComparison ? !this.randomizePoints : this.randomizePoints,
+        this.randomPointsRadius,
         {
-          nNeighbors: this.nNeighbors,
-          minDist: this.minDist,
-          spread: this.spread,
+          method: this.projectionMethod,
+          umap: {
+            nNeighbors: this.nNeighbors,
+            minDist: this.minDist,
+            spread: this.spread,
+          },
+          pca: {normalize: this.pcaNormalize, whiten: this.pcaWhiten},
+          tsne: {
+            perplexity: this.tsnePerplexity,
+            learningRate: this.tsneLearningRate,
+            iterations: this.tsneIterations,
+          },
+          precomputed: {
+            coordinates: this.precomputedCoordinates,
+            normalize: this.precomputedNormalize,
+          },
         },
         this.selectedEmbeddings,
+        (progress) => {
+          this.layoutProgress = progress;
+        },
       );
-    this.selectedEmbeddings = selectedEmbeddings;
-
-    this.pointCloud = new PointCloud(data);
-    this.sceneRenderer.add(this.pointCloud.getPointsGroup());
+    } catch (e) {
+      console.error('Failed to compute the layout: ', e);
+      this.layoutProgress = null;
+      this.dispatchEvent(
+        new CustomEvent('layout-failed', {
+          detail: {message: e.message},
+          bubbles: true,
+          composed: true,
+        }),
+      );
+      return null;
+    }
+    if (!result) {
+      return null;
+    }
+    this.layoutProgress = null;
+    if (isComparison) {
+      return new PointCloud(result.data);
+    }
+    this.selectedEmbeddings = result.selectedEmbeddings;
+    // Precomputed coordinates are shown as given.
+    if (this.pointCloud && this.projectionMethod !== 'precomputed') {
+      alignLayout(result.data, this.pointCloud.getPositions());
+    }
+    return new PointCloud(result.data);
   }
 
   private readonly animateFrame = () => {
     this.animationFrameId = requestAnimationFrame(this.animateFrame);
     this.frameCount++;
-    if (!this.sceneRenderer || !this.spaceship) {
+    const focusedPilot = this.focusedPilot;
+    if (!this.sceneRenderer || !focusedPilot) {
       return;
     }
 
-    const spaceshipMesh = this.spaceship.getMesh();
+    const spaceship = focusedPilot.spaceship;
+    const spaceshipMesh = spaceship.getMesh();
     const cubeCamera = this.sceneRenderer.cubeCamera;
     if (cubeCamera) {
       this.sceneRenderer.updateCubeCamera(
@@ -316,15 +809,26 @@ export class SpaceComponent extends LitElement {
         spaceshipMesh,
       );
     }
+    this.updateTransition();
     const pointsGroup = this.pointCloud?.getPointsGroup();
     const pointMeshes = this.pointCloud?.getPointMeshes() ?? [];
-    this.spaceship.updatePosition(this.keysPressed, pointsGroup, pointMeshes);
+    const axes = combineAxes(...this.flightInputs.values());
+    for (const pilot of this.pilots) {
+      // Only the focused ship is steered by the keyboard and controllers.
+      const isFocused = pilot === focusedPilot;
+      pilot.spaceship.updatePosition(
+        isFocused ? this.keysPressed : NO_KEYS,
+        pointsGroup,
+        pointMeshes,
+        isFocused ? axes : NO_FLIGHT_AXES,
+      );
+    }
     this.updateCameraFollow();
     this.updateAndRenderHighlights();
     this.pointCloud?.updateLabelVisibilities(
       this.sceneRenderer.camera,
-      this.spaceship.getMesh(),
-      this.spaceship.occlusionHull,
+      spaceship.getMesh(),
+      spaceship.occlusionHull,
       this.pointHighlighter.getHighlightedObjects(),
       this.frameCount,
       LABEL_UPDATE_THROTTLE,
@@ -332,12 +836,23 @@ export class SpaceComponent extends LitElement {
       LABEL_SELECTION_CONE_HEIGHT,
       MAX_IN_VIEW_LABELS,
     );
+    this.comparisonCloud?.updateLabelVisibilities(
+      this.sceneRenderer.camera,
+      spaceship.getMesh(),
+      spaceship.occlusionHull,
+      this.comparisonHighlights,
+      this.frameCount,
+      LABEL_UPDATE_THROTTLE,
+      LABEL_SELECTION_CONE_DEGREES,
+      LABEL_SELECTION_CONE_HEIGHT,
+      MAX_IN_VIEW_LABELS,
+    );
 
     this.sceneRenderer.render();
   };
 
   private updateAndRenderHighlights(force = false) {
-    if (!this.sceneRenderer || !this.spaceship) {
+    if (!this.sceneRenderer || this.pilots.length === 0) {
       return;
     }
     // Throttle function to run every few frames to prevent UI lag.
@@ -345,27 +860,41 @@ export class SpaceComponent extends LitElement {
       return;
     }
 
-    const spaceshipMesh = this.spaceship.getMesh();
-    const spaceshipPos = spaceshipMesh.position;
-    this.pointSelector.updateProximitySelection(spaceshipPos);
+    for (const [ship, pilot] of this.pilots.entries()) {
+      this.updatePilotSelection(ship, pilot, pilot === this.focusedPilot);
+    }
+    this.updateComparisonHighlights();
+  }
+
+  /**
+   * Updates the prompts selected by a ship, and highlights them if it is the
+   * focused ship.
+   */
+  private updatePilotSelection(ship: number, pilot: Pilot, highlight: boolean) {
+    const {spaceship, pointSelector} = pilot;
+    const spaceshipPos = spaceship.getMesh().position;
+    pointSelector.updateProximitySelection(spaceshipPos);
 
-    const combinedWeights = this.pointSelector.getCombinedWeights();
+    const combinedWeights = pointSelector.getCombinedWeights();
 
     if (
       Object.keys(combinedWeights).length === 0 &&
-      !this.pointSelector.hasManualSelection()
+      !pointSelector.hasManualSelection()
     ) {
-      if (this.pointHighlighter.getHighlightedObjects().length > 0) {
+      if (
+        highlight &&
+        this.pointHighlighter.getHighlightedObjects().length > 0
+      ) {
         this.pointHighlighter.resetHighlights();
       }
       if (
-        this.lastDispatchedWeights &&
-        Object.keys(this.lastDispatchedWeights).length > 0
+        pilot.lastDispatchedWeights &&
+        Object.keys(pilot.lastDispatchedWeights).length > 0
       ) {
-        this.lastDispatchedWeights = {};
+        pilot.lastDispatchedWeights = {};
         this.dispatchEvent(
           new CustomEvent('prompts-selected', {
-            detail: {promptWeights: {}},
+            detail: {promptWeights: {}, ship},
             bubbles: true,
             composed: true,
           }),
@@ -374,15 +903,17 @@ export class SpaceComponent extends LitElement {
       return;
     }
 
-    this.pointHighlighter.highlightSelection(
-      this.pointCloud,
-      this.pointSelector.getProximityMeshes(),
-      this.pointSelector.getManualPrimaryMeshes(),
-      this.pointSelector.getNeighborIndices(),
-      this.pointSelector.getDirectlyClickedMesh(),
-      this.pointSelector.getProximityWeights(),
-      this.pointSelector.getManualSelectionWeights(),
-    );
+    if (highlight) {
+      this.pointHighlighter.highlightSelection(
+        this.pointCloud,
+        pointSelector.getProximityMeshes(),
+        pointSelector.getManualPrimaryMeshes(),
+        pointSelector.getNeighborIndices(),
+        pointSelector.getDirectlyClickedMesh(),
+        pointSelector.getProximityWeights(),
+        pointSelector.getManualSelectionWeights(),
+      );
+    }
 
     const filteredWeights: {[key: string]: number} = Object.fromEntries(
       Object.entries(combinedWeights)
@@ -392,11 +923,11 @@ export class SpaceComponent extends LitElement {
     );
 
     // Check if weights have changed before dispatching.
-    if (this.haveWeightsChanged(filteredWeights)) {
-      this.lastDispatchedWeights = {...filteredWeights};
+    if (this.haveWeightsChanged(pilot.lastDispatchedWeights, filteredWeights)) {
+      pilot.lastDispatchedWeights = {...filteredWeights};
       this.dispatchEvent(
         new CustomEvent('prompts-selected', {
-          detail: {promptWeights: filteredWeights},
+          detail: {promptWeights: filteredWeights, ship},
           bubbles: true,
           composed: true,
         }),
@@ -415,10 +946,11 @@ export class SpaceComponent extends LitElement {
   };
 
   private updateCameraFollow() {
-    if (!this.spaceship) {
+    const spaceship = this.focusedPilot?.spaceship;
+    if (!spaceship) {
       return;
     }
-    const spaceshipMesh = this.spaceship.getMesh();
+    const spaceshipMesh = spaceship.getMesh();
     // Position behind and above the spaceship.
     const offset = new THREE.Vector3(0, 1.5, -5);
     // Apply the spaceship's rotation to the offset.
@@ -436,18 +968,32 @@ export class SpaceComponent extends LitElement {
     const rect = this.sceneRenderer.getRendererBoundingClientRect();
     this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
     this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    this.selectAtMouse();
+  };
 
+  /**
+   * Anchors the point in the middle of the view and its neighbors, as if it
+   * was clicked.
+   */
+  selectAtCrosshair() {
+    this.mouse.set(0, 0);
+    this.selectAtMouse();
+  }
+
+  private selectAtMouse() {
     // Update the selection ray with the camera and mouse position
     this.raycaster.setFromCamera(this.mouse, this.sceneRenderer.camera);
 
-    this.pointSelector.selectByClick(
+    this.focusedPilot?.pointSelector.selectByClick(
       this.raycaster,
       this.sceneRenderer.camera.position,
     );
-  };
+  }
 
-  private haveWeightsChanged(newWeights: {[key: string]: number}): boolean {
-    const oldWeights = this.lastDispatchedWeights;
+  private haveWeightsChanged(
+    oldWeights: {[key: string]: number} | null,
+    newWeights: {[key: string]: number},
+  ): boolean {
     if (!oldWeights) {
       return Object.keys(newWeights).length > 0;
     }
@@ -478,6 +1024,30 @@ export class SpaceComponent extends LitElement {
       width: 100%;
       height: 100%;
     }
+    .layout-progress {
+      position: absolute;
+      bottom: 24px;
+      left: 50%;
+      transform: translateX(-50%);
+      width: 240px;
+      color: #a1a1a1;
+      font-family: sans-serif;
+      font-size: 12px;
+      text-align: center;
+      pointer-events: none;
+    }
+    .layout-progress-track {
+      height: 4px;
+      margin-top: 4px;
+      border-radius: 2px;
+      background: rgba(255, 255, 255, 0.15);
+      overflow: hidden;
+    }
+    .layout-progress-bar {
+      height: 100%;
+      background: #f0b400;
+      transition: width 0.1s linear;
+    }
     /* PointCloud label styles */
     .label {
       color: #c2f1ff;
@@ -492,13 +1062,65 @@ export class SpaceComponent extends LitElement {
       transform-origin: left center;
       transition: transform 0.1s ease-out;
     }
+    .layout-title {
+      color: #e0e0e0;
+      font-family: sans-serif;
+      font-size: 18px;
+      font-weight: bold;
+      letter-spacing: 0.5px;
+      text-transform: uppercase;
+      white-space: nowrap;
+      text-shadow: 0 0 8px rgba(0, 0, 0, 0.9);
+    }
+    .cluster-label {
+      font-family: sans-serif;
+      font-size: 14px;
+      font-weight: bold;
+      letter-spacing: 0.5px;
+      text-transform: uppercase;
+      white-space: nowrap;
+      text-shadow: 0 0 8px rgba(0, 0, 0, 0.9);
+      opacity: 0.7;
+    }
   `;
 
   render() {
-    return html`<div id="container"></div>`;
+    return html`<div id="container"></div>
+      ${when(
+        this.layoutProgress !== null,
+        () => html`
+          <div class="layout-progress">
+            Computing layout… ${Math.round(this.layoutProgress! * 100)}%
+            <div class="layout-progress-track">
+              <div
+                class="layout-progress-bar"
+                style="width: ${this.layoutProgress! * 100}%"></div>
+            </div>
+          </div>
+        `,
+      )}`;
   }
 }
 
+// Titles a layout in the split view, above the middle of its points.
+function addLayoutTitle(
+  pointsGroup: THREE.Group,
+  box: THREE.Box3,
+  text: string,
+): CSS2DObject {
+  const titleDiv = document.createElement('div');
+  titleDiv.className = 'layout-title';
+  titleDiv.textContent = text;
+  const title = new CSS2DObject(titleDiv);
+  title.position.set(
+    (box.min.x + box.max.x) / 2,
+    box.max.y + 2,
+    (box.min.z + box.max.z) / 2,
+  );
+  pointsGroup.add(title);
+  return title;
+}
+
 declare global {
   interface HTMLElementTagNameMap {
     'space-component': SpaceComponent;
@@ -7,22 +7,37 @@
 import '@material/web/all.js';
 
 import {css, html, LitElement} from 'lit';
-import {customElement, property} from 'lit/decorators.js';
+import {customElement, property, query} from 'lit/decorators.js';
+import {type EmbeddingSet} from './embedding_sets';
+import {type LayoutCacheStats} from './layout_cache';
+import {PROJECTION_METHOD_LABELS, type ProjectionMethod} from './projection';
 import {MD_STYLES} from './styles';
+import {formatBytes} from './utils';
 
 /**
  * The settings for the Space visualization.
  */
 export interface SpaceSettings {
+  rngSeed: number;
   pointCount: number;
   neighborRadius: number;
   includeHighDimensionalNeighbors: boolean;
   threeDClickRadius: number;
   randomizePoints: boolean;
+  randomPointsRadius: number;
+  splitView: boolean;
   randomizeEmbeddings: boolean;
   nNeighbors: number;
   minDist: number;
   spread: number;
+  clusterCount: number;
+  projectionMethod: ProjectionMethod;
+  pcaNormalize: boolean;
+  pcaWhiten: boolean;
+  tsnePerplexity: number;
+  tsneLearningRate: number;
+  tsneIterations: number;
+  precomputedNormalize: boolean;
 }
 
 /**
@@ -66,10 +81,26 @@ export class SpaceSettingsComponent extends LitElement {
       md-outlined-button {
         margin-left: 8px;
       }
+      .status {
+        color: var(--md-sys-color-on-surface-variant);
+        font-size: 12px;
+      }
+      .status.error {
+        color: #ff8a80;
+      }
+      input[type='file'] {
+        display: none;
+      }
     `,
   ];
 
   @property({type: Object}) settings!: SpaceSettings;
+  /** The coordinates loaded for the precomputed projection. */
+  @property({type: Object}) coordinates: EmbeddingSet | null = null;
+  @property({type: String}) coordinatesError: string | null = null;
+  @property({type: Object}) layoutCacheStats: LayoutCacheStats | null = null;
+
+  @query('input[type="file"]') private fileInput!: HTMLInputElement;
 
   private handleTextFieldBlur(e: FocusEvent) {
     const target = e.target as HTMLInputElement;
@@ -112,6 +143,53 @@ export class SpaceSettingsComponent extends LitElement {
     );
   }
 
+  private handleMethodChange(e: Event) {
+    const target = e.target as HTMLSelectElement;
+    this.dispatchEvent(
+      new CustomEvent('settings-changed', {
+        bubbles: true,
+        composed: true,
+        detail: {property: 'projectionMethod', value: target.value},
+      }),
+    );
+  }
+
+  private handleFileChange() {
+    const files = Array.from(this.fileInput.files ?? []);
+    this.fileInput.value = '';
+    if (files.length > 0) {
+      this.dispatchEvent(
+        new CustomEvent('coordinates-files-selected', {
+          bubbles: true,
+          composed: true,
+          detail: {files},
+        }),
+      );
+    }
+  }
+
+  private handleClearCacheClick() {
+    this.dispatchEvent(
+      new CustomEvent('clear-layout-cache', {
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private handleNewSeedClick() {
+    this.dispatchEvent(
+      new CustomEvent('settings-changed', {
+        bubbles: true,
+        composed: true,
+        detail: {
+          property: 'rngSeed',
+          value: Math.floor(Math.random() * 2 ** 32),
+        },
+      }),
+    );
+  }
+
   private handleRenderClick() {
     this.dispatchEvent(
       new CustomEvent('render-space-clicked', {
@@ -121,11 +199,136 @@ export class SpaceSettingsComponent extends LitElement {
     );
   }
 
+  private renderProjectionParameters() {
+    switch (this.settings.projectionMethod) {
+      case 'umap':
+        return html`
+          <md-outlined-text-field
+            label="UMAP Neighbors"
+            type="number"
+            .value=${this.settings.nNeighbors.toString()}
+            data-property="nNeighbors"
+            @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
+          <md-outlined-text-field
+            label="UMAP Min Dist"
+            type="number"
+            step="0.05"
+            .value=${this.settings.minDist.toString()}
+            data-property="minDist"
+            @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
+          <md-outlined-text-field
+            label="UMAP Spread"
+            type="number"
+            step="0.05"
+            .value=${this.settings.spread.toString()}
+            data-property="spread"
+            @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
+        `;
+      case 'pca':
+        return html`
+          <label class="checkbox-label">
+            Normalize
+            <md-checkbox
+              ?checked=${this.settings.pcaNormalize}
+              data-property="pcaNormalize"
+              @change=${this.handleCheckboxChange}></md-checkbox>
+          </label>
+          <label class="checkbox-label">
+            Whiten
+            <md-checkbox
+              ?checked=${this.settings.pcaWhiten}
+              data-property="pcaWhiten"
+              @change=${this.handleCheckboxChange}></md-checkbox>
+          </label>
+        `;
+      case 'tsne':
+        return html`
+          <md-outlined-text-field
+            label="Perplexity"
+            type="number"
+            .value=${this.settings.tsnePerplexity.toString()}
+            data-property="tsnePerplexity"
+            @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
+          <md-outlined-text-field
+            label="Learning Rate"
+            type="number"
+            .value=${this.settings.tsneLearningRate.toString()}
+            data-property="tsneLearningRate"
+            @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
+          <md-outlined-text-field
+            label="Iterations"
+            type="number"
+            step="50"
+            .value=${this.settings.tsneIterations.toString()}
+            data-property="tsneIterations"
+            @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
+        `;
+      case 'precomputed':
+        return html`
+          <md-outlined-button @click=${() => this.fileInput.click()}>
+            Load Coordinates
+          </md-outlined-button>
+          <input
+            type="file"
+            multiple
+            accept=".json,.csv,.npy,.txt"
+            @change=${this.handleFileChange} />
+          ${this.renderCoordinatesStatus()}
+          <label class="checkbox-label">
+            Normalize
+            <md-checkbox
+              ?checked=${this.settings.precomputedNormalize}
+              data-property="precomputedNormalize"
+              @change=${this.handleCheckboxChange}></md-checkbox>
+          </label>
+        `;
+      default:
+        return html``;
+    }
+  }
+
+  private renderCoordinatesStatus() {
+    if (this.coordinatesError) {
+      return html`<span class="status error">${this.coordinatesError}</span>`;
+    }
+    if (this.coordinates) {
+      const {name, embeddings, dimensions} = this.coordinates;
+      return html`<span class="status">
+        ${name} · ${embeddings.size} points · ${dimensions}D
+      </span>`;
+    }
+    return html`<span class="status">
+      Load 2D or 3D coordinates by label as JSON, CSV, or NPY and labels.
+    </span>`;
+  }
+
+  private renderLayoutCacheStatus() {
+    if (!this.layoutCacheStats) {
+      return html``;
+    }
+    const {count, bytes} = this.layoutCacheStats;
+    return html`<span class="status">
+      ${count} cached ${count === 1 ? 'layout' : 'layouts'} ·
+      ${formatBytes(bytes)}
+    </span>`;
+  }
+
   override render() {
     if (!this.settings) {
       return html``;
     }
     return html`
+      <div class="flex-row">
+        <md-outlined-text-field
+          label="Seed"
+          type="number"
+          .value=${this.settings.rngSeed.toString()}
+          data-property="rngSeed"
+          @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
+        <md-outlined-button @click=${this.handleNewSeedClick}
+          >New Seed</md-outlined-button
+        >
+      </div>
       <div class="flex-row">
         <md-outlined-text-field
           label="Point Count"
@@ -148,26 +351,30 @@ export class SpaceSettingsComponent extends LitElement {
           data-property="threeDClickRadius"
           @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
         <md-outlined-text-field
-          label="UMAP Neighbors"
+          label="Clusters"
           type="number"
-          .value=${this.settings.nNeighbors.toString()}
-          data-property="nNeighbors"
-          @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
-        <md-outlined-text-field
-          label="UMAP Min Dist"
-          type="number"
-          step="0.05"
-          .value=${this.settings.minDist.toString()}
-          data-property="minDist"
-          @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
-        <md-outlined-text-field
-          label="UMAP Spread"
-          type="number"
-          step="0.05"
-          .value=${this.settings.spread.toString()}
-          data-property="spread"
+          min="0"
+          .value=${this.settings.clusterCount.toString()}
+          data-property="clusterCount"
           @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
       </div>
+      <div class="flex-row">
+        <md-outlined-select
+          label="Projection"
+          .value=${this.settings.projectionMethod}
+          @change=${this.handleMethodChange}>
+          ${Object.entries(PROJECTION_METHOD_LABELS).map(
+            ([method, label]) => html`
+              <md-select-option
+                value=${method}
+                ?selected=${method === this.settings.projectionMethod}>
+                <div slot="headline">${label}</div>
+              </md-select-option>
+            `,
+          )}
+        </md-outlined-select>
+        ${this.renderProjectionParameters()}
+      </div>
       <div class="flex-row">
         <label class="checkbox-label">
           High Dim Neighbors
@@ -190,11 +397,30 @@ export class SpaceSettingsComponent extends LitElement {
             data-property="randomizeEmbeddings"
             @change=${this.handleCheckboxChange}></md-checkbox>
         </label>
+        <md-outlined-text-field
+          label="Random Points Radius"
+          type="number"
+          .value=${this.settings.randomPointsRadius.toString()}
+          data-property="randomPointsRadius"
+          @blur=${this.handleTextFieldBlur}></md-outlined-text-field>
+        <label class="checkbox-label">
+          Split View
+          <md-checkbox
+            ?checked=${this.settings.splitView}
+            data-property="splitView"
+            @change=${this.handleCheckboxChange}></md-checkbox>
+        </label>
       </div>
       <div class="flex-row">
         <md-outlined-button @click=${this.handleRenderClick}
           >Render</md-outlined-button
         >
+        <md-outlined-button
+          ?disabled=${!this.layoutCacheStats?.count}
+          @click=${this.handleClearCacheClick}
+          >Clear Layout Cache</md-outlined-button
+        >
+        ${this.renderLayoutCacheStatus()}
       </div>
     `;
   }
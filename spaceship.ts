@@ -11,6 +11,42 @@ const ROTATION_SPEED = 0.02;
 const AUTOPILOT_MAX_CENTER_DISTANCE = 40;
 const AUTOPILOT_MIN_TARGET_DISTANCE = 5.0;
 const AUTOPILOT_RANDOM_DESTINATION_PROBABILITY = 0.001;
+// Analog input below this magnitude does not disengage the autopilot.
+const AXIS_ENGAGE_THRESHOLD = 0.1;
+// How much faster, or slower, the ship moves at full boost.
+const MAX_BOOST_FACTOR = 3;
+// How far in front of a point a flight to it stops.
+const FLY_TO_STOP_DISTANCE = 4;
+// The speed of flights, in world units per second, and their shortest and
+// longest durations in seconds.
+const FLY_TO_SPEED = 15;
+const FLY_TO_MIN_DURATION = 1;
+const FLY_TO_MAX_DURATION = 4;
+
+/**
+ * Analog flight controls, e.g. from a MIDI controller or a gamepad. Each axis
+ * is between -1 and 1, and full deflection matches holding down a key.
+ */
+export interface FlightAxes {
+  /** Forward (positive) or backward. */
+  thrust: number;
+  /** Left (positive) or right. */
+  strafe: number;
+  /** Nose up (positive) or down. */
+  pitch: number;
+  /** Turn left (positive) or right. */
+  yaw: number;
+  /** Moves faster (positive) or slower than normal. */
+  boost: number;
+}
+
+export const NO_FLIGHT_AXES: FlightAxes = {
+  thrust: 0,
+  strafe: 0,
+  pitch: 0,
+  yaw: 0,
+  boost: 0,
+};
 
 /**
  * Represents the player-controlled spaceship in the scene.
@@ -23,7 +59,18 @@ export class Spaceship {
   private autopilotTime = 0;
   private autopilotTargetPosition: THREE.Vector3 | null = null;
   private autopilotTargetDestination: THREE.Vector3 | null = null;
+  private flight: {
+    fromPosition: THREE.Vector3;
+    fromQuaternion: THREE.Quaternion;
+    toPosition: THREE.Vector3;
+    toQuaternion: THREE.Quaternion;
+    startTime: number;
+    duration: number;
+    onArrived?: () => void;
+  } | null = null;
   onAutopilotChanged?: (active: boolean) => void;
+  /** Picks the autopilot destinations. */
+  random: () => number = Math.random;
 
   constructor(cubeRenderTarget: THREE.WebGLCubeRenderTarget) {
     this.mesh = new THREE.Group();
@@ -194,6 +241,19 @@ export class Spaceship {
     this.mesh.scale.set(0.12, 0.12, 0.12);
   }
 
+  /**
+   * Releases the geometries and materials of the ship. The environment map
+   * belongs to the scene, so it is kept.
+   */
+  dispose() {
+    this.mesh.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
+  }
+
   /**
    * Toggles the autopilot mode.
    *
@@ -201,6 +261,7 @@ export class Spaceship {
    */
   toggleAutopilot(): boolean {
     this.autopilotActive = !this.autopilotActive;
+    this.flight = null;
     if (this.onAutopilotChanged) {
       this.onAutopilotChanged(this.autopilotActive);
     }
@@ -218,29 +279,78 @@ export class Spaceship {
     this.autopilotTargetDestination = null;
   }
 
+  /**
+   * Flies smoothly to just in front of a position, turning to face it. The
+   * autopilot disengages, and steering cancels the flight.
+   *
+   * @param target The position to fly to.
+   * @param onArrived Called once the ship arrives.
+   */
+  flyTo(target: THREE.Vector3, onArrived?: () => void) {
+    if (this.autopilotActive) {
+      this.toggleAutopilot();
+    }
+    const offset = target.clone().sub(this.mesh.position);
+    const distance = offset.length();
+    const toPosition =
+      distance > FLY_TO_STOP_DISTANCE
+        ? target
+            .clone()
+            .sub(offset.normalize().multiplyScalar(FLY_TO_STOP_DISTANCE))
+        : this.mesh.position.clone();
+    // Orients the +Z axis of the ship towards the target.
+    const lookAtMatrix = new THREE.Matrix4().lookAt(
+      target,
+      toPosition,
+      this.mesh.up,
+    );
+    this.flight = {
+      fromPosition: this.mesh.position.clone(),
+      fromQuaternion: this.mesh.quaternion.clone(),
+      toPosition,
+      toQuaternion: new THREE.Quaternion().setFromRotationMatrix(lookAtMatrix),
+      startTime: performance.now(),
+      duration: THREE.MathUtils.clamp(
+        distance / FLY_TO_SPEED,
+        FLY_TO_MIN_DURATION,
+        FLY_TO_MAX_DURATION,
+      ),
+      onArrived,
+    };
+  }
+
   /**
    * Updates the spaceship position based on the current state.
    *
    * @param keysPressed The set of keys pressed.
    * @param pointsGroup The group of points.
    * @param pointMeshes The meshes of the points.
+   * @param axes The analog flight controls, added to the keys.
    */
   updatePosition(
     keysPressed: Set<string>,
     pointsGroup?: THREE.Group,
     pointMeshes?: THREE.Mesh[],
+    axes: FlightAxes = NO_FLIGHT_AXES,
   ) {
-    if (
-      this.autopilotActive &&
-      (keysPressed.has('w') ||
-        keysPressed.has('s') ||
-        keysPressed.has('a') ||
-        keysPressed.has('d') ||
-        keysPressed.has('arrowup') ||
-        keysPressed.has('arrowdown') ||
-        keysPressed.has('arrowleft') ||
-        keysPressed.has('arrowright'))
-    ) {
+    // Boost only changes the speed, so holding it alone is not steering.
+    const isAxisEngaged = [axes.thrust, axes.strafe, axes.pitch, axes.yaw].some(
+      (value) => Math.abs(value) > AXIS_ENGAGE_THRESHOLD,
+    );
+    const isSteering =
+      keysPressed.has('w') ||
+      keysPressed.has('s') ||
+      keysPressed.has('a') ||
+      keysPressed.has('d') ||
+      keysPressed.has('arrowup') ||
+      keysPressed.has('arrowdown') ||
+      keysPressed.has('arrowleft') ||
+      keysPressed.has('arrowright') ||
+      isAxisEngaged;
+    if (isSteering) {
+      this.flight = null;
+    }
+    if (this.autopilotActive && isSteering) {
       this.autopilotActive = false;
       this.resetAutopilotTarget();
       if (this.onAutopilotChanged) {
@@ -248,10 +358,37 @@ export class Spaceship {
       }
     }
 
-    if (this.autopilotActive) {
+    if (this.flight) {
+      this.updateFlight();
+    } else if (this.autopilotActive) {
       this.updateAutopilot(pointsGroup, pointMeshes);
     } else {
-      this.updateManualPosition(keysPressed);
+      this.updateManualPosition(keysPressed, axes);
+    }
+  }
+
+  private updateFlight() {
+    const flight = this.flight!;
+    const progress = Math.min(
+      (performance.now() - flight.startTime) / (flight.duration * 1000),
+      1,
+    );
+    // Ease in and out, turning to face the target in the first half.
+    const eased = THREE.MathUtils.smoothstep(progress, 0, 1);
+    const turned = THREE.MathUtils.smoothstep(progress, 0, 0.5);
+    this.mesh.position.lerpVectors(
+      flight.fromPosition,
+      flight.toPosition,
+      eased,
+    );
+    this.mesh.quaternion.slerpQuaternions(
+      flight.fromQuaternion,
+      flight.toQuaternion,
+      turned,
+    );
+    if (progress === 1) {
+      this.flight = null;
+      flight.onArrived?.();
     }
   }
 
@@ -283,10 +420,10 @@ export class Spaceship {
       this.autopilotTargetDestination === null ||
       distanceToCenter > AUTOPILOT_MAX_CENTER_DISTANCE ||
       distanceToDestination < AUTOPILOT_MIN_TARGET_DISTANCE ||
-      Math.random() < AUTOPILOT_RANDOM_DESTINATION_PROBABILITY
+      this.random() < AUTOPILOT_RANDOM_DESTINATION_PROBABILITY
     ) {
       if (pointMeshes && pointMeshes.length > 0) {
-        const randomIndex = Math.floor(Math.random() * pointMeshes.length);
+        const randomIndex = Math.floor(this.random() * pointMeshes.length);
         const randomPointMesh = pointMeshes[randomIndex]!;
         if (randomPointMesh.parent) {
           this.autopilotTargetDestination =
@@ -294,10 +431,12 @@ export class Spaceship {
         }
       } else {
         this.autopilotTargetDestination = new THREE.Vector3(
-          THREE.MathUtils.randFloat(boundingBox.min.x, boundingBox.max.x),
-          THREE.MathUtils.randFloat(boundingBox.min.y, boundingBox.max.y),
-          THREE.MathUtils.randFloat(boundingBox.min.z, boundingBox.max.z),
-        );
+          this.random(),
+          this.random(),
+          this.random(),
+        )
+          .multiply(boundingBox.getSize(new THREE.Vector3()))
+          .add(boundingBox.min);
       }
       // If this is the first time, snap the current target to the destination.
       if (
@@ -332,19 +471,19 @@ export class Spaceship {
     spaceshipMesh.quaternion.slerp(targetQuaternion, 0.003);
   }
 
-  private updateManualPosition(keysPressed: Set<string>) {
+  private updateManualPosition(keysPressed: Set<string>, axes: FlightAxes) {
+    const {thrust, strafe, pitch, yaw, boost} = combineAxes(
+      keysToAxes(keysPressed),
+      axes,
+    );
+
     // Movement
-    if (keysPressed.has('w')) {
-      this.mesh.translateZ(MOVE_SPEED);
-    }
-    if (keysPressed.has('s')) {
-      this.mesh.translateZ(-MOVE_SPEED);
-    }
-    if (keysPressed.has('a')) {
-      this.mesh.translateX(MOVE_SPEED);
+    const moveSpeed = MOVE_SPEED * MAX_BOOST_FACTOR ** boost;
+    if (thrust !== 0) {
+      this.mesh.translateZ(moveSpeed * thrust);
     }
-    if (keysPressed.has('d')) {
-      this.mesh.translateX(-MOVE_SPEED);
+    if (strafe !== 0) {
+      this.mesh.translateX(moveSpeed * strafe);
     }
 
     // Rotation
@@ -356,27 +495,16 @@ export class Spaceship {
     const pitchUpLimit = THREE.MathUtils.degToRad(5);
     const pitchDownLimit = THREE.MathUtils.degToRad(160);
 
-    if (keysPressed.has('arrowup')) {
-      if (pitchAngle > pitchUpLimit) {
-        this.mesh.rotateX(-ROTATION_SPEED);
-      }
+    if (pitch > 0 && pitchAngle > pitchUpLimit) {
+      this.mesh.rotateX(-ROTATION_SPEED * pitch);
     }
-    if (keysPressed.has('arrowdown')) {
-      if (pitchAngle < pitchDownLimit) {
-        this.mesh.rotateX(ROTATION_SPEED);
-      }
+    if (pitch < 0 && pitchAngle < pitchDownLimit) {
+      this.mesh.rotateX(-ROTATION_SPEED * pitch);
     }
-    if (keysPressed.has('arrowleft')) {
+    if (yaw !== 0) {
       const q = new THREE.Quaternion().setFromAxisAngle(
         worldUp,
-        ROTATION_SPEED,
-      );
-      this.mesh.quaternion.premultiply(q);
-    }
-    if (keysPressed.has('arrowright')) {
-      const q = new THREE.Quaternion().setFromAxisAngle(
-        worldUp,
-        -ROTATION_SPEED,
+        ROTATION_SPEED * yaw,
       );
       this.mesh.quaternion.premultiply(q);
     }
@@ -389,3 +517,30 @@ export class Spaceship {
     return this.mesh;
   }
 }
+
+// Converts the WASD and arrow keys to full deflections of the flight axes.
+function keysToAxes(keysPressed: Set<string>): FlightAxes {
+  const axis = (positive: string, negative: string) =>
+    (keysPressed.has(positive) ? 1 : 0) - (keysPressed.has(negative) ? 1 : 0);
+  return {
+    thrust: axis('w', 's'),
+    strafe: axis('a', 'd'),
+    pitch: axis('arrowup', 'arrowdown'),
+    yaw: axis('arrowleft', 'arrowright'),
+    boost: 0,
+  };
+}
+
+/**
+ * Adds flight axes from several inputs, limiting each axis to full
+ * deflection.
+ */
+export function combineAxes(...inputs: FlightAxes[]): FlightAxes {
+  const combined = {...NO_FLIGHT_AXES};
+  for (const input of inputs) {
+    for (const axis of Object.keys(combined) as Array<keyof FlightAxes>) {
+      combined[axis] = Math.max(-1, Math.min(1, combined[axis] + input[axis]));
+    }
+  }
+  return combined;
+}
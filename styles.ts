@@ -47,6 +47,45 @@ export const SPACE_DJ_STYLES = css`
     justify-content: space-between;
     align-items: center;
   }
+  .title {
+    display: flex;
+    align-items: center;
+    gap: 16px;
+  }
+  .connection-indicator {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    color: #a1a1a1;
+    font-size: 12px;
+    text-transform: uppercase;
+    letter-spacing: 0.5px;
+  }
+  .connection-dot {
+    width: 8px;
+    height: 8px;
+    border-radius: 50%;
+    background-color: #6e6e78;
+  }
+  .connection-indicator.connected .connection-dot {
+    background-color: #3ccf6e;
+  }
+  .connection-indicator.connecting .connection-dot,
+  .connection-indicator.reconnecting .connection-dot {
+    background-color: #f0b400;
+    animation: pulse 1s ease-in-out infinite alternate;
+  }
+  .connection-indicator.failed .connection-dot {
+    background-color: #ff4d4d;
+  }
+  @keyframes pulse {
+    from {
+      opacity: 0.3;
+    }
+    to {
+      opacity: 1;
+    }
+  }
   .controls {
     display: flex;
     gap: 4px;
@@ -55,8 +94,8 @@ export const SPACE_DJ_STYLES = css`
   .container {
     width: fit-content;
     display: flex;
-    justify-content: flex-end;
-    align-items: baseline;
+    flex-direction: column;
+    align-items: flex-start;
     gap: 1vmin;
   }
   .flex-row {
@@ -72,16 +111,26 @@ export const SPACE_DJ_STYLES = css`
   }
   play-pause-button,
   reset-button,
+  record-button,
   settings-button,
   close-button,
   collapse-button,
   info-button,
   loading-icon,
   autopilot-button,
-  vocals-button {
+  vocals-button,
+  decks-button {
     height: 8vmin;
     width: 8vmin;
   }
+  .recording-status {
+    display: flex;
+    flex-direction: column;
+    align-items: flex-end;
+    color: #ff4d4d;
+    font-size: 12px;
+    font-variant-numeric: tabular-nums;
+  }
   md-outlined-select {
     margin-top: 16px;
     max-width: 200px;
@@ -144,24 +193,133 @@ export const SPACE_DJ_STYLES = css`
     backdrop-filter: blur(4px);
     border: 1px solid rgba(255, 255, 255, 0.1);
   }
+  .prompt-countdown {
+    color: #f0b400;
+    font-size: 11px;
+    font-variant-numeric: tabular-nums;
+    white-space: nowrap;
+    margin-left: auto;
+    margin-right: 8px;
+  }
+  .prompt-overlay.collapsed .prompt-countdown {
+    display: none;
+  }
   .prompt-item {
     display: flex;
     justify-content: space-between;
+    align-items: center;
+    gap: 4px;
     margin-bottom: 8px;
     font-size: 14px;
   }
+  .prompt-item.inaudible {
+    opacity: 0.4;
+  }
   .prompt-text {
-    margin-right: 24px;
+    flex: 1;
+    min-width: 0;
+    margin-right: 8px;
     white-space: nowrap;
     overflow: hidden;
     text-overflow: ellipsis;
   }
+  .prompt-slider {
+    width: 100px;
+    min-width: 100px;
+  }
   .prompt-weight {
     font-weight: bold;
     color: #fff;
     min-width: 40px;
     text-align: right;
   }
+  .prompt-weight.manual {
+    color: #f0b400;
+  }
+  .mixer-button {
+    width: 24px;
+    height: 24px;
+    padding: 0;
+    border: 1px solid rgba(255, 255, 255, 0.3);
+    border-radius: 4px;
+    background: transparent;
+    color: #a1a1a1;
+    font-size: 11px;
+    font-weight: bold;
+    cursor: pointer;
+  }
+  .mixer-button:hover {
+    color: #fff;
+    border-color: #fff;
+  }
+  .mixer-button.active {
+    background: #f0b400;
+    border-color: #f0b400;
+    color: #1a1a1a;
+  }
+  .deck-overlay {
+    position: absolute;
+    top: 88px;
+    left: 50%;
+    transform: translateX(-50%);
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    padding: 8px 16px;
+    background-color: rgba(26, 26, 26, 0.7);
+    color: #e0e0e0;
+    border-radius: 12px;
+    z-index: 1001;
+    backdrop-filter: blur(4px);
+    border: 1px solid rgba(255, 255, 255, 0.1);
+  }
+  .deck {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+  }
+  .deck-button {
+    padding: 4px 10px;
+    border: 1px solid rgba(255, 255, 255, 0.3);
+    border-radius: 4px;
+    background: transparent;
+    color: #a1a1a1;
+    font-size: 12px;
+    font-weight: bold;
+    letter-spacing: 0.5px;
+    text-transform: uppercase;
+    cursor: pointer;
+  }
+  .deck-button:hover {
+    color: #fff;
+    border-color: #fff;
+  }
+  .deck-button.active {
+    background: #e0e0e0;
+    border-color: #e0e0e0;
+    color: #1a1a1a;
+  }
+  .deck-state {
+    min-width: 52px;
+    color: #a1a1a1;
+    font-size: 11px;
+    text-transform: uppercase;
+  }
+  .crossfader {
+    width: 200px;
+  }
+  timeline-panel {
+    position: absolute;
+    top: 88px;
+    right: 24px;
+    z-index: 1001;
+  }
+  cluster-legend {
+    position: absolute;
+    bottom: 88px;
+    right: 24px;
+    z-index: 1001;
+  }
   md-outlined-select {
     background: rgba(26, 26, 26, 0.5);
   }
@@ -314,6 +472,20 @@ export const SPACE_DJ_STYLES = css`
   .show-controls-button.hidden {
     display: none;
   }
+  .audio-stats {
+    position: absolute;
+    top: 50%;
+    right: 24px;
+    display: flex;
+    flex-direction: column;
+    padding: 8px 12px;
+    border-radius: 8px;
+    background-color: rgba(26, 26, 26, 0.7);
+    color: #a1a1a1;
+    font-family: monospace;
+    font-size: 12px;
+    z-index: 1001;
+  }
 `;
 
 /**
@@ -395,6 +567,16 @@ export const MD_STYLES = css`
     --md-outlined-button-pressed-outline-color: var(--md-sys-color-primary);
   }
 
+  md-slider {
+    --md-slider-active-track-color: var(--md-sys-color-primary);
+    --md-slider-handle-color: var(--md-sys-color-primary);
+    --md-slider-focus-handle-color: var(--md-sys-color-primary);
+    --md-slider-hover-handle-color: var(--md-sys-color-on-primary);
+    --md-slider-pressed-handle-color: var(--md-sys-color-on-primary);
+    --md-slider-label-container-color: var(--md-sys-color-primary);
+    --md-slider-inactive-track-color: var(--md-sys-color-on-surface-variant);
+  }
+
   md-checkbox {
     --md-checkbox-outline-color: var(--md-sys-color-on-surface-variant);
     --md-checkbox-selected-container-color: var(--md-sys-color-primary);
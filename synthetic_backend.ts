@@ -0,0 +1,241 @@
+/**
+ * @fileoverview An offline music backend that synthesizes audio locally.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  LiveMusicServerMessage,
+  type LiveMusicCallbacks,
+  type LiveMusicGenerationConfig,
+  type LiveMusicSetConfigParameters,
+  type LiveMusicSetWeightedPromptsParameters,
+  type WeightedPrompt,
+} from '@google/genai';
+import {type MusicBackend} from './music_backend';
+import {encode} from './utils';
+
+const SAMPLE_RATE = 48000;
+const NUM_CHANNELS = 2;
+const CHUNK_DURATION = 2; // seconds
+const STREAM_LEAD_TIME = 4; // seconds of audio to stay ahead of real time
+const STREAM_TICK_MS = 250;
+const SETUP_LATENCY_MS = 100;
+const DEFAULT_BPM = 120;
+const BASE_FREQUENCY = 110; // A2
+
+/**
+ * Options for simulating failure modes of the real service.
+ */
+export interface SyntheticBackendOptions {
+  /** Prompts containing any of these words are reported as filtered. */
+  filteredWords?: string[];
+  /** Closes the connection this many seconds after connecting. */
+  dropAfterSeconds?: number;
+}
+
+/**
+ * A backend that streams locally synthesized tones in the same message format
+ * as Lyria RealTime, for development and testing without network access.
+ *
+ * Each prompt maps to a stable pitch derived from its text, and the weighted
+ * prompts are mixed into a drone over a kick drum at the configured BPM.
+ */
+export class SyntheticBackend implements MusicBackend {
+  private callbacks: LiveMusicCallbacks | null = null;
+  private prompts: WeightedPrompt[] = [];
+  private config: LiveMusicGenerationConfig = {};
+  private playing = false;
+  private samplePosition = 0;
+  private streamStartTime = 0;
+  private streamedSeconds = 0;
+  private streamTimerId?: ReturnType<typeof setInterval>;
+  private setupTimerId?: ReturnType<typeof setTimeout>;
+  private dropTimerId?: ReturnType<typeof setTimeout>;
+
+  constructor(private readonly options: SyntheticBackendOptions = {}) {}
+
+  async connect(callbacks: LiveMusicCallbacks) {
+    this.close();
+    this.callbacks = callbacks;
+    this.setupTimerId = setTimeout(() => {
+      this.setupTimerId = undefined;
+      this.send({setupComplete: {}});
+    }, SETUP_LATENCY_MS);
+    if (this.options.dropAfterSeconds !== undefined) {
+      this.dropTimerId = setTimeout(() => {
+        this.simulateDrop();
+      }, this.options.dropAfterSeconds * 1000);
+    }
+  }
+
+  play() {
+    if (this.playing) {
+      return;
+    }
+    this.playing = true;
+    this.streamStartTime = performance.now() / 1000;
+    this.streamedSeconds = 0;
+    this.streamTimerId = setInterval(() => {
+      this.streamAhead();
+    }, STREAM_TICK_MS);
+    this.streamAhead();
+  }
+
+  pause() {
+    this.playing = false;
+    clearInterval(this.streamTimerId);
+    this.streamTimerId = undefined;
+  }
+
+  stop() {
+    this.pause();
+    this.samplePosition = 0;
+  }
+
+  resetContext() {
+    this.samplePosition = 0;
+  }
+
+  async setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters) {
+    const filteredWords = this.options.filteredWords ?? [];
+    const accepted: WeightedPrompt[] = [];
+    for (const prompt of params.weightedPrompts) {
+      const text = prompt.text ?? '';
+      const filteredWord = filteredWords.find((word) => text.includes(word));
+      if (filteredWord) {
+        this.send({
+          filteredPrompt: {
+            text,
+            filteredReason: `Simulated filter: "${text}" contains "${filteredWord}".`,
+          },
+        });
+        continue;
+      }
+      accepted.push(prompt);
+    }
+    this.prompts = accepted;
+  }
+
+  async setMusicGenerationConfig(params: LiveMusicSetConfigParameters) {
+    this.config = {...params.musicGenerationConfig};
+  }
+
+  close() {
+    this.pause();
+    clearTimeout(this.setupTimerId);
+    this.setupTimerId = undefined;
+    clearTimeout(this.dropTimerId);
+    this.dropTimerId = undefined;
+    this.callbacks = null;
+  }
+
+  private simulateDrop() {
+    const callbacks = this.callbacks;
+    this.close();
+    callbacks?.onclose?.(
+      new CloseEvent('close', {
+        code: 1006,
+        reason: 'Simulated connection drop.',
+      }),
+    );
+  }
+
+  private send(message: Partial<LiveMusicServerMessage>) {
+    this.callbacks?.onmessage(
+      Object.assign(new LiveMusicServerMessage(), message),
+    );
+  }
+
+  private streamAhead() {
+    const elapsed = performance.now() / 1000 - this.streamStartTime;
+    while (this.playing && this.streamedSeconds < elapsed + STREAM_LEAD_TIME) {
+      const data = this.synthesizeChunk();
+      this.streamedSeconds += CHUNK_DURATION;
+      this.send({
+        serverContent: {
+          audioChunks: [
+            {
+              data: encode(new Uint8Array(data.buffer)),
+              mimeType: `audio/l16;rate=${SAMPLE_RATE};channels=${NUM_CHANNELS}`,
+            },
+          ],
+        },
+      });
+    }
+  }
+
+  private synthesizeChunk(): Int16Array {
+    const frames = CHUNK_DURATION * SAMPLE_RATE;
+    const samples = new Int16Array(frames * NUM_CHANNELS);
+    const bpm = this.config.bpm ?? DEFAULT_BPM;
+    const beatFrames = (60 / bpm) * SAMPLE_RATE;
+    const brightness = this.config.brightness ?? 0.5;
+    const density = this.config.density ?? 0.5;
+    const onlyBassAndDrums = this.config.onlyBassAndDrums ?? false;
+    const muteDrums = this.config.muteDrums ?? false;
+    const muteBass = this.config.muteBass ?? false;
+
+    const totalWeight = this.prompts.reduce(
+      (sum, p) => sum + (p.weight ?? 0),
+      0,
+    );
+    const voices = this.prompts.map((prompt) => ({
+      frequency: BASE_FREQUENCY * Math.pow(2, hashText(prompt.text ?? '') / 12),
+      gain: totalWeight > 0 ? (prompt.weight ?? 0) / totalWeight : 0,
+    }));
+
+    for (let i = 0; i < frames; i++) {
+      const position = this.samplePosition + i;
+      const t = position / SAMPLE_RATE;
+      let left = 0;
+      let right = 0;
+
+      if (!onlyBassAndDrums) {
+        for (const [v, voice] of voices.entries()) {
+          const phase = 2 * Math.PI * voice.frequency * 2 * t;
+          const tone = Math.sin(phase) + brightness * 0.5 * Math.sin(2 * phase);
+          const pan = voices.length > 1 ? v / (voices.length - 1) : 0.5;
+          left += tone * voice.gain * (1 - pan) * 0.3;
+          right += tone * voice.gain * pan * 0.3;
+        }
+      }
+
+      const beatPosition = position % beatFrames;
+      if (!muteBass && voices.length > 0) {
+        const bass =
+          Math.sin(2 * Math.PI * voices[0].frequency * 0.5 * t) *
+          Math.exp(-beatPosition / (beatFrames * (0.5 + density)));
+        left += bass * 0.25;
+        right += bass * 0.25;
+      }
+      if (!muteDrums) {
+        const beatTime = beatPosition / SAMPLE_RATE;
+        const kick =
+          Math.sin(
+            2 * Math.PI * (50 + 100 * Math.exp(-beatTime * 30)) * beatTime,
+          ) * Math.exp(-beatTime * 12);
+        left += kick * 0.4;
+        right += kick * 0.4;
+      }
+
+      samples[i * 2] = clampToInt16(left);
+      samples[i * 2 + 1] = clampToInt16(right);
+    }
+    this.samplePosition += frames;
+    return samples;
+  }
+}
+
+// Maps a prompt to a stable number of semitones above the base frequency.
+function hashText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % 24;
+}
+
+function clampToInt16(value: number): number {
+  return Math.max(-32768, Math.min(32767, Math.round(value * 32767)));
+}
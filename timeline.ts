@@ -0,0 +1,196 @@
+/**
+ * @fileoverview A log of the prompts and config sent to the music sessions.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {type LiveMusicGenerationConfig} from '@google/genai';
+import {type DeckId} from './deck';
+import {type Prompt} from './prompt_scheduler';
+
+const TIMELINE_VERSION = 1;
+
+/**
+ * A change sent to a music session.
+ */
+export type SessionUpdate =
+  | {type: 'prompts'; weightedPrompts: Prompt[]}
+  | {type: 'config'; musicGenerationConfig: LiveMusicGenerationConfig};
+
+/**
+ * A change sent to the session of a deck, and when it was sent.
+ */
+export type TimelineEvent = SessionUpdate & {
+  /** Seconds since the timeline started, on the playback clock. */
+  time: number;
+  deck: DeckId;
+};
+
+/**
+ * Records every change sent to the sessions, in order.
+ */
+export class PromptTimeline {
+  private events: TimelineEvent[] = [];
+  private startTime: number;
+
+  /**
+   * @param now Returns the current time of the playback clock, in seconds.
+   */
+  constructor(private readonly now: () => number) {
+    this.startTime = now();
+  }
+
+  getEvents(): TimelineEvent[] {
+    return this.events;
+  }
+
+  /**
+   * Adds a change that was just sent to the session of a deck.
+   */
+  record(deck: DeckId, update: SessionUpdate) {
+    this.events = [
+      ...this.events,
+      {...update, time: this.now() - this.startTime, deck},
+    ];
+  }
+
+  /**
+   * Replaces the log with imported events, e.g. to replay them. Changes
+   * recorded afterwards follow the last imported one.
+   */
+  load(events: TimelineEvent[]) {
+    this.events = events;
+    this.startTime = this.now() - (events.at(-1)?.time ?? 0);
+  }
+
+  /**
+   * Empties the log and restarts its clock.
+   */
+  clear() {
+    this.events = [];
+    this.startTime = this.now();
+  }
+
+  toJson(): string {
+    return JSON.stringify(
+      {version: TIMELINE_VERSION, events: this.events},
+      null,
+      2,
+    );
+  }
+}
+
+/**
+ * Parses a timeline exported with `PromptTimeline.toJson`.
+ *
+ * @throws If the JSON is not a valid timeline.
+ */
+export function parseTimeline(json: string): TimelineEvent[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The timeline is not valid JSON.');
+  }
+  if (!isObject(data) || data['version'] !== TIMELINE_VERSION) {
+    throw new Error('Unsupported timeline version.');
+  }
+  const events = data['events'];
+  if (!Array.isArray(events) || !events.every(isTimelineEvent)) {
+    throw new Error('The timeline contains invalid events.');
+  }
+  return [...events].sort((a, b) => a.time - b.time);
+}
+
+function isObject(value: unknown): value is {[key: string]: unknown} {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTimelineEvent(value: unknown): value is TimelineEvent {
+  if (
+    !isObject(value) ||
+    typeof value['time'] !== 'number' ||
+    !(value['time'] >= 0) ||
+    (value['deck'] !== 'A' && value['deck'] !== 'B')
+  ) {
+    return false;
+  }
+  if (value['type'] === 'prompts') {
+    const prompts = value['weightedPrompts'];
+    return (
+      Array.isArray(prompts) &&
+      prompts.every(
+        (p) =>
+          isObject(p) &&
+          typeof p['text'] === 'string' &&
+          typeof p['weight'] === 'number',
+      )
+    );
+  }
+  return value['type'] === 'config' && isObject(value['musicGenerationConfig']);
+}
+
+/**
+ * Sends the events of a timeline again, on the schedule they were recorded
+ * with.
+ */
+export class TimelinePlayer {
+  private timerIds: number[] = [];
+  private playedCount = 0;
+
+  /**
+   * @param events The events to replay, in order.
+   * @param send Sends one event to its deck's session.
+   * @param onProgress Called after each event, and once every event is sent.
+   */
+  constructor(
+    private readonly events: TimelineEvent[],
+    private readonly send: (event: TimelineEvent) => Promise<void>,
+    private readonly onProgress: (playedCount: number, done: boolean) => void,
+  ) {}
+
+  getPlayedCount(): number {
+    return this.playedCount;
+  }
+
+  /**
+   * Schedules every event relative to now.
+   */
+  start() {
+    this.stop();
+    this.playedCount = 0;
+    const startTime = this.events[0]?.time ?? 0;
+    for (const event of this.events) {
+      const timerId = window.setTimeout(
+        () => {
+          void this.play(event);
+        },
+        (event.time - startTime) * 1000,
+      );
+      this.timerIds.push(timerId);
+    }
+    if (this.events.length === 0) {
+      this.onProgress(0, true);
+    }
+  }
+
+  /**
+   * Cancels the events that were not sent yet.
+   */
+  stop() {
+    for (const timerId of this.timerIds) {
+      window.clearTimeout(timerId);
+    }
+    this.timerIds = [];
+  }
+
+  private async play(event: TimelineEvent) {
+    try {
+      await this.send(event);
+    } catch (e) {
+      console.warn('Failed to replay timeline event: ', e);
+    }
+    this.playedCount++;
+    this.onProgress(this.playedCount, this.playedCount === this.events.length);
+  }
+}
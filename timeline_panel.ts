@@ -0,0 +1,260 @@
+/**
+ * @fileoverview A panel listing the changes sent to the music sessions.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import './icon_button';
+
+import {css, html, LitElement} from 'lit';
+import {customElement, property, query} from 'lit/decorators.js';
+import {classMap} from 'lit/directives/class-map.js';
+import {when} from 'lit/directives/when.js';
+import {type TimelineEvent} from './timeline';
+
+/**
+ * A scrollable timeline of the prompts and config sent to the sessions, with
+ * controls to replay, import, export and clear it.
+ */
+@customElement('timeline-panel')
+export class TimelinePanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      background-color: rgba(26, 26, 26, 0.7);
+      color: #e0e0e0;
+      padding: 12px 24px;
+      border-radius: 12px;
+      width: 360px;
+      backdrop-filter: blur(4px);
+      border: 1px solid rgba(255, 255, 255, 0.1);
+      transition: all 0.3s ease-in-out;
+    }
+    :host([collapsed]) {
+      width: auto;
+      padding: 0 6px 0 24px;
+    }
+    .header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    h2 {
+      flex: 1;
+      margin: 0;
+      font-size: 16px;
+      color: #a1a1a1;
+      letter-spacing: 0.5px;
+    }
+    collapse-button {
+      width: 36px;
+      height: 36px;
+    }
+    .actions {
+      display: flex;
+      gap: 6px;
+      margin: 8px 0;
+    }
+    button {
+      padding: 2px 8px;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      background: transparent;
+      color: #a1a1a1;
+      font-size: 11px;
+      font-weight: bold;
+      text-transform: uppercase;
+      cursor: pointer;
+    }
+    button:hover:not(:disabled) {
+      color: #fff;
+      border-color: #fff;
+    }
+    button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    .events {
+      max-height: 30vh;
+      overflow-y: auto;
+      font-size: 12px;
+    }
+    .event {
+      display: flex;
+      gap: 8px;
+      padding: 2px 0;
+    }
+    .event.pending {
+      opacity: 0.4;
+    }
+    .time {
+      color: #a1a1a1;
+      font-family: monospace;
+      font-variant-numeric: tabular-nums;
+    }
+    .deck {
+      color: #f0b400;
+      font-weight: bold;
+    }
+    .type {
+      color: #a1a1a1;
+      min-width: 48px;
+    }
+    .summary {
+      flex: 1;
+      min-width: 0;
+      overflow-wrap: anywhere;
+    }
+    .empty {
+      color: #a1a1a1;
+      font-size: 12px;
+    }
+    input[type='file'] {
+      display: none;
+    }
+  `;
+
+  @property({type: Array}) events: TimelineEvent[] = [];
+  /** The number of events replayed so far, or null when not replaying. */
+  @property({type: Number}) playedCount: number | null = null;
+  /** Whether to show which deck each event was sent to. */
+  @property({type: Boolean}) showDecks = false;
+  @property({type: Boolean, reflect: true}) collapsed = true;
+
+  @query('.events') private eventList?: HTMLDivElement;
+  @query('input[type="file"]') private fileInput!: HTMLInputElement;
+
+  protected override updated(changedProperties: Map<string, unknown>) {
+    if (!this.eventList) {
+      return;
+    }
+    if (changedProperties.has('playedCount') && this.playedCount !== null) {
+      // Follow the replay.
+      this.eventList.children[this.playedCount - 1]?.scrollIntoView({
+        block: 'nearest',
+      });
+    } else if (
+      changedProperties.has('events') ||
+      changedProperties.has('collapsed')
+    ) {
+      this.eventList.scrollTop = this.eventList.scrollHeight;
+    }
+  }
+
+  private dispatch(type: string, detail?: unknown) {
+    this.dispatchEvent(
+      new CustomEvent(type, {bubbles: true, composed: true, detail}),
+    );
+  }
+
+  private async handleFileChange() {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = '';
+    if (!file) {
+      return;
+    }
+    this.dispatch('timeline-imported', {json: await file.text()});
+  }
+
+  private renderEvent(event: TimelineEvent, index: number) {
+    const summary =
+      event.type === 'prompts'
+        ? event.weightedPrompts
+            .map(({text, weight}) => `${text} ${weight.toFixed(2)}`)
+            .join(', ') || 'No prompts'
+        : Object.entries(event.musicGenerationConfig)
+            .map(([key, value]) => `${key} ${value}`)
+            .join(', ');
+    return html`
+      <div
+        class=${classMap({
+          'event': true,
+          'pending': this.playedCount !== null && index >= this.playedCount,
+        })}>
+        <span class="time">${formatTime(event.time)}</span>
+        ${when(
+          this.showDecks,
+          () => html`<span class="deck">${event.deck}</span>`,
+        )}
+        <span class="type">${event.type}</span>
+        <span class="summary">${summary}</span>
+      </div>
+    `;
+  }
+
+  private renderReplayButton() {
+    if (this.playedCount !== null) {
+      return html`
+        <button @click=${() => this.dispatch('timeline-stop')}>Stop</button>
+      `;
+    }
+    return html`
+      <button
+        ?disabled=${this.events.length === 0}
+        title="Replay the timeline on a new session"
+        @click=${() => this.dispatch('timeline-replay')}>
+        Replay
+      </button>
+    `;
+  }
+
+  override render() {
+    const isReplaying = this.playedCount !== null;
+    return html`
+      <div class="header">
+        <h2>TIMELINE</h2>
+        <collapse-button
+          .collapsed=${this.collapsed}
+          @click=${() => {
+            this.collapsed = !this.collapsed;
+          }}></collapse-button>
+      </div>
+      ${when(
+        !this.collapsed,
+        () => html`
+          <div class="actions">
+            ${this.renderReplayButton()}
+            <button
+              ?disabled=${isReplaying}
+              @click=${() => this.fileInput.click()}>
+              Import
+            </button>
+            <button
+              ?disabled=${this.events.length === 0}
+              @click=${() => this.dispatch('timeline-export')}>
+              Export
+            </button>
+            <button
+              ?disabled=${isReplaying || this.events.length === 0}
+              @click=${() => this.dispatch('timeline-clear')}>
+              Clear
+            </button>
+            <input
+              type="file"
+              accept="application/json,.json"
+              @change=${this.handleFileChange} />
+          </div>
+          <div class="events">
+            ${when(
+              this.events.length === 0,
+              () => html`<span class="empty">Nothing sent yet.</span>`,
+              () => this.events.map((event, i) => this.renderEvent(event, i)),
+            )}
+          </div>
+        `,
+      )}
+    `;
+  }
+}
+
+function formatTime(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${remainder}`;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'timeline-panel': TimelinePanel;
+  }
+}
@@ -7,6 +7,15 @@
 import {css, html, LitElement} from 'lit';
 import {customElement, property} from 'lit/decorators.js';
 import {classMap} from 'lit/directives/class-map.js';
+import {when} from 'lit/directives/when.js';
+
+/**
+ * A button shown in the toast, which hides the toast when clicked.
+ */
+export interface ToastAction {
+  label: string;
+  run: () => void;
+}
 
 /** Toast Message component. */
 @customElement('toast-message')
@@ -39,6 +48,11 @@ export class ToastMessage extends LitElement {
       color: #000;
       cursor: pointer;
     }
+    button.action {
+      aspect-ratio: auto;
+      padding: 4px 12px;
+      white-space: nowrap;
+    }
     .toast:not(.showing) {
       transition-duration: 1s;
       transform: translate(-50%, -200%);
@@ -54,21 +68,40 @@ export class ToastMessage extends LitElement {
 
   @property({type: String}) message = '';
   @property({type: Boolean}) showing = false;
+  @property({type: Object}) action: ToastAction | null = null;
 
   override render() {
     return html`<div class=${classMap({showing: this.showing, toast: true})}>
       <div class="message">${this.message}</div>
+      ${when(
+        this.action,
+        (action) =>
+          html`<button class="action" @click=${this.runAction}>
+            ${action.label}
+          </button>`,
+      )}
       <button @click=${this.hide}>✕</button>
     </div>`;
   }
 
-  show(message: string) {
+  /**
+   * Shows a message, with a button for an action the user may take.
+   */
+  show(message: string, action: ToastAction | null = null) {
     this.showing = true;
     this.message = message;
+    this.action = action;
   }
 
   hide() {
     this.showing = false;
+    this.action = null;
+  }
+
+  private runAction() {
+    const action = this.action;
+    this.hide();
+    action?.run();
   }
 }
 
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Exact t-SNE to 3D, fitted step by step.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {normalizeVectors, type TsneParameters} from './projection';
+
+const DIMENSIONS = 3;
+const EARLY_EXAGGERATION = 4;
+const EARLY_EXAGGERATION_ITERATIONS = 100;
+const MOMENTUM_SWITCH_ITERATION = 250;
+const INITIAL_MOMENTUM = 0.5;
+const FINAL_MOMENTUM = 0.8;
+const MIN_GAIN = 0.01;
+const PERPLEXITY_TOLERANCE = 1e-5;
+const PERPLEXITY_SEARCH_STEPS = 50;
+
+/**
+ * Lays out vectors in 3D with t-SNE, comparing them by cosine distance.
+ *
+ * https://lvdmaaten.github.io/publications/papers/JMLR_2008.pdf
+ */
+export class Tsne {
+  private readonly count: number;
+  // Symmetric joint probabilities of the input, count x count.
+  private readonly p: Float64Array;
+  private readonly positions: Float64Array;
+  private readonly steps: Float64Array;
+  private readonly gains: Float64Array;
+  // Scratch space for the Student-t kernel of the layout.
+  private readonly kernel: Float64Array;
+  private iteration = 0;
+
+  constructor(
+    data: number[][],
+    private readonly parameters: TsneParameters,
+    random: () => number,
+  ) {
+    this.count = data.length;
+    this.p = computeJointProbabilities(
+      normalizeVectors(data),
+      // The perplexity must be below the number of neighbors.
+      Math.min(parameters.perplexity, (this.count - 1) / 3),
+    );
+    this.positions = new Float64Array(this.count * DIMENSIONS);
+    for (let i = 0; i < this.positions.length; i++) {
+      this.positions[i] = gaussian(random) * 1e-4;
+    }
+    this.steps = new Float64Array(this.count * DIMENSIONS);
+    this.gains = new Float64Array(this.count * DIMENSIONS).fill(1);
+    this.kernel = new Float64Array(this.count * this.count);
+  }
+
+  getIterationCount(): number {
+    return this.parameters.iterations;
+  }
+
+  /**
+   * Runs one iteration of gradient descent.
+   */
+  step() {
+    const {count, p, positions, steps, gains, kernel} = this;
+    const exaggeration =
+      this.iteration < EARLY_EXAGGERATION_ITERATIONS ? EARLY_EXAGGERATION : 1;
+    const momentum =
+      this.iteration < MOMENTUM_SWITCH_ITERATION
+        ? INITIAL_MOMENTUM
+        : FINAL_MOMENTUM;
+
+    let kernelSum = 0;
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        let distance = 0;
+        for (let d = 0; d < DIMENSIONS; d++) {
+          const delta =
+            positions[i * DIMENSIONS + d] - positions[j * DIMENSIONS + d];
+          distance += delta * delta;
+        }
+        const value = 1 / (1 + distance);
+        kernel[i * count + j] = value;
+        kernel[j * count + i] = value;
+        kernelSum += 2 * value;
+      }
+    }
+
+    for (let i = 0; i < count; i++) {
+      const gradient = [0, 0, 0];
+      for (let j = 0; j < count; j++) {
+        if (i === j) {
+          continue;
+        }
+        const value = kernel[i * count + j];
+        const force =
+          (exaggeration * p[i * count + j] - value / kernelSum) * value;
+        for (let d = 0; d < DIMENSIONS; d++) {
+          gradient[d] +=
+            4 *
+            force *
+            (positions[i * DIMENSIONS + d] - positions[j * DIMENSIONS + d]);
+        }
+      }
+      for (let d = 0; d < DIMENSIONS; d++) {
+        const index = i * DIMENSIONS + d;
+        // Slow down where the gradient turned against the last step.
+        gains[index] =
+          Math.sign(gradient[d]) === Math.sign(steps[index])
+            ? Math.max(gains[index] * 0.8, MIN_GAIN)
+            : gains[index] + 0.2;
+        steps[index] =
+          momentum * steps[index] -
+          this.parameters.learningRate * gains[index] * gradient[d];
+      }
+    }
+
+    for (let i = 0; i < positions.length; i++) {
+      positions[i] += steps[i];
+    }
+    this.center();
+    this.iteration++;
+  }
+
+  private center() {
+    for (let d = 0; d < DIMENSIONS; d++) {
+      let mean = 0;
+      for (let i = 0; i < this.count; i++) {
+        mean += this.positions[i * DIMENSIONS + d] / this.count;
+      }
+      for (let i = 0; i < this.count; i++) {
+        this.positions[i * DIMENSIONS + d] -= mean;
+      }
+    }
+  }
+
+  getEmbedding(): number[][] {
+    return Array.from({length: this.count}, (_, i) =>
+      Array.from(this.positions.subarray(i * DIMENSIONS, (i + 1) * DIMENSIONS)),
+    );
+  }
+}
+
+// Finds the Gaussian kernel around each point that gives it the perplexity,
+// and returns the symmetrized probabilities.
+function computeJointProbabilities(
+  data: number[][],
+  perplexity: number,
+): Float64Array {
+  const count = data.length;
+  const distances = new Float64Array(count * count);
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      let distance = 0;
+      for (let d = 0; d < data[i].length; d++) {
+        const delta = data[i][d] - data[j][d];
+        distance += delta * delta;
+      }
+      distances[i * count + j] = distance;
+      distances[j * count + i] = distance;
+    }
+  }
+
+  const targetEntropy = Math.log(perplexity);
+  const conditional = new Float64Array(count * count);
+  for (let i = 0; i < count; i++) {
+    let beta = 1;
+    let minBeta = -Infinity;
+    let maxBeta = Infinity;
+    for (let step = 0; step < PERPLEXITY_SEARCH_STEPS; step++) {
+      let sum = 0;
+      for (let j = 0; j < count; j++) {
+        const value = i === j ? 0 : Math.exp(-distances[i * count + j] * beta);
+        conditional[i * count + j] = value;
+        sum += value;
+      }
+      let entropy = 0;
+      for (let j = 0; j < count; j++) {
+        const probability = sum === 0 ? 0 : conditional[i * count + j] / sum;
+        conditional[i * count + j] = probability;
+        if (probability > 1e-7) {
+          entropy -= probability * Math.log(probability);
+        }
+      }
+      if (Math.abs(entropy - targetEntropy) < PERPLEXITY_TOLERANCE) {
+        break;
+      }
+      // A narrower kernel lowers the entropy.
+      if (entropy > targetEntropy) {
+        minBeta = beta;
+        beta = maxBeta === Infinity ? beta * 2 : (beta + maxBeta) / 2;
+      } else {
+        maxBeta = beta;
+        beta = minBeta === -Infinity ? beta / 2 : (beta + minBeta) / 2;
+      }
+    }
+  }
+
+  const joint = new Float64Array(count * count);
+  for (let i = 0; i < count; i++) {
+    for (let j = 0; j < count; j++) {
+      joint[i * count + j] = Math.max(
+        (conditional[i * count + j] + conditional[j * count + i]) / (2 * count),
+        1e-12,
+      );
+    }
+  }
+  return joint;
+}
+
+// Samples the standard normal distribution with the Box-Muller transform.
+function gaussian(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
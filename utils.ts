@@ -55,48 +55,6 @@ export function createBlob(data: Float32Array): Blob {
   };
 }
 
-/**
- * Decodes audio data from a Uint8Array into an AudioBuffer.
- * The Uint8Array is treated as interleaved 16-bit PCM data.
- * @param data The Uint8Array containing the audio data.
- * @param ctx The AudioContext to create the buffer with.
- * @param sampleRate The sample rate of the audio data.
- * @param numChannels The number of audio channels.
- * @return A Promise that resolves with the decoded AudioBuffer.
- */
-export async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const buffer = ctx.createBuffer(
-    numChannels,
-    data.length / 2 / numChannels,
-    sampleRate,
-  );
-
-  const dataInt16 = new Int16Array(data.buffer);
-  const l = dataInt16.length;
-  const dataFloat32 = new Float32Array(l);
-  for (let i = 0; i < l; i++) {
-    dataFloat32[i] = dataInt16[i] / 32768.0;
-  }
-  // Extract interleaved channels
-  if (numChannels === 0) {
-    buffer.copyToChannel(dataFloat32, 0);
-  } else {
-    for (let i = 0; i < numChannels; i++) {
-      const channel = dataFloat32.filter(
-        (_, index) => index % numChannels === i,
-      );
-      buffer.copyToChannel(channel, i);
-    }
-  }
-
-  return buffer;
-}
-
 /**
  * Calculates the cosine distance between two vectors.
  * @param vecA The first vector.
@@ -105,33 +63,59 @@ export async function decodeAudioData(
  *    Returns 1 if either magnitude is 0.
  */
 export function cosineDistance(vecA: number[], vecB: number[]): number {
-  const dotProduct = vecA.reduce((sum, a, i) => sum + a * vecB[i], 0);
-  const magnitudeA = Math.sqrt(vecA.reduce((sum, a) => sum + a * a, 0));
-  const magnitudeB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
-  if (magnitudeA === 0 || magnitudeB === 0) {
+  let dotProduct = 0;
+  let magnitudeSqA = 0;
+  let magnitudeSqB = 0;
+  for (let i = 0; i < vecA.length; i++) {
+    dotProduct += vecA[i] * vecB[i];
+    magnitudeSqA += vecA[i] * vecA[i];
+    magnitudeSqB += vecB[i] * vecB[i];
+  }
+  if (magnitudeSqA === 0 || magnitudeSqB === 0) {
     return 1;
   }
-  const similarity = dotProduct / (magnitudeA * magnitudeB);
+  const similarity = dotProduct / Math.sqrt(magnitudeSqA * magnitudeSqB);
   return 1 - similarity;
 }
 
 /**
- * Throttles a function to be called at most once per every `delay` milliseconds.
- * @param func The function to throttle.
- * @param delay The minimum time in milliseconds between function calls.
- * @return The throttled function.
+ * Returns a pseudorandom number generator function based on the given seed.
+ * This is a simple implementation of the mulberry32 function that produces
+ * numbers uniformly distributed between 0 and 1.
+ * @param seed The seed of the generator.
+ * @return A function returning the next pseudorandom number.
  */
-export function throttle(
-  func: (...args: unknown[]) => Promise<void>,
-  delay: number,
-) {
-  let lastCall = 0;
-  return async (...args: unknown[]) => {
-    const now = Date.now();
-    const timeSinceLastCall = now - lastCall;
-    if (timeSinceLastCall >= delay) {
-      await func(...args);
-      lastCall = now;
-    }
-  };
+export function mulberry32(seed: number) {
+  return function(): number {
+    var t = seed += 0x6D2B79F5;
+    t = Math.imul(t ^ t >>> 15, t | 1);
+    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  }
+}
+
+/**
+ * Returns a pseudorandom number generator for one use of a seed, so that each
+ * use draws its own sequence, unaffected by how many numbers the others draw.
+ * @param seed The seed shared by the streams.
+ * @param name The name of the stream, e.g. 'layout'.
+ * @return A function returning the next pseudorandom number.
+ */
+export function createRandomStream(seed: number, name: string) {
+  // Hash the seed and name together with 32-bit FNV-1a.
+  let hash = 0x811c9dc5;
+  for (const char of `${seed}:${name}`) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return mulberry32(hash >>> 0);
+}
+
+/**
+ * Formats a size in bytes as KB or MB.
+ */
+export function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(0)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Loads AudioWorklet processors defined as functions.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * The base of AudioWorklet processors.
+ */
+export interface WorkletProcessor {
+  readonly port: MessagePort;
+}
+
+/**
+ * The globals of the AudioWorkletGlobalScope that worklet modules use. They
+ * are handed to the module rather than declared globally, so main thread code
+ * cannot use them by mistake.
+ */
+export interface AudioWorkletScope {
+  readonly currentFrame: number;
+  readonly sampleRate: number;
+  readonly AudioWorkletProcessor: new () => WorkletProcessor;
+  registerProcessor(
+    name: string,
+    processorCtor: new (options: {
+      processorOptions: {numChannels: number};
+    }) => WorkletProcessor,
+  ): void;
+}
+
+const loadedModules = new WeakMap<
+  BaseAudioContext,
+  Map<string, Promise<void>>
+>();
+
+/**
+ * Loads the module registering an AudioWorklet processor, once per audio
+ * context, so any number of nodes can share it.
+ *
+ * @param audioContext The audio context to load the module into.
+ * @param name The name the module registers its processor under.
+ * @param module A function that registers the processor, called with the
+ *     global scope of the worklet. It is serialized with `toString()` and
+ *     loaded from a Blob URL, so it must not reference anything outside its
+ *     body.
+ */
+export function loadWorkletModule(
+  audioContext: BaseAudioContext,
+  name: string,
+  module: (scope: AudioWorkletScope) => void,
+): Promise<void> {
+  let modules = loadedModules.get(audioContext);
+  if (!modules) {
+    modules = new Map();
+    loadedModules.set(audioContext, modules);
+  }
+  let loaded = modules.get(name);
+  if (!loaded) {
+    loaded = addModule(audioContext, module);
+    modules.set(name, loaded);
+  }
+  return loaded;
+}
+
+async function addModule(
+  audioContext: BaseAudioContext,
+  module: (scope: AudioWorkletScope) => void,
+) {
+  const source = `(${module.toString()})(globalThis);`;
+  const url = URL.createObjectURL(
+    new Blob([source], {type: 'application/javascript'}),
+  );
+  try {
+    await audioContext.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}